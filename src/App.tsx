@@ -1,17 +1,37 @@
-import React, { useState, useMemo } from 'react';
-import { Search, Copy, Trash2, Eye, EyeOff, Info, Database, Settings, FileText } from 'lucide-react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Search, Copy, Trash2, Eye, EyeOff, Info, Database, Settings, FileText, ChevronDown, ChevronRight, Lock, ShieldCheck, Braces, Pencil, GitCompare } from 'lucide-react';
 
 // Import components
 import FileUpload from './components/FileUpload';
 import ExportPanel from './components/ExportPanel';
 import Statistics from './components/Statistics';
-import KLVBuilder from './components/KLVBuilder';
+import KLVBuilder, { KLVBuilderSource } from './components/KLVBuilder';
 import BatchProcessor from './components/BatchProcessor';
+import CompareView from './components/CompareView';
+import DialectSelector from './components/DialectSelector';
+import LengthUnitSelector from './components/LengthUnitSelector';
+import SubfieldTree from './components/SubfieldTree';
+import RulePackPanel, { RulePackSetting } from './components/RulePackPanel';
+import ProfileChecklist from './components/ProfileChecklist';
 
 // Import utilities
-import KLVParser, { KLVEntry } from './utils/KLVParser';
+import KLVParser, { KLVDialectId, KLVDuplicateMode, KLVEntry, KLVLengthUnit, KLVParseError, KLVParseResult, KLVRedactionPolicy, KLVSourceSpan } from './utils/KLVParser';
+import BinaryKLVParser, { BinaryKeyFormat } from './utils/BinaryKLVParser';
+import KLVRules from './utils/KLVRules';
+import { MessageProfileId } from './utils/profiles';
 
-interface HistoryEntry {
+type InputMode = 'ascii' | 'binary';
+
+type PCIPolicy = 'off' | KLVRedactionPolicy;
+
+interface InputSettings {
+  mode: InputMode;
+  dialectId: KLVDialectId;
+  lengthUnit: KLVLengthUnit;
+  keyFormat: BinaryKeyFormat;
+}
+
+interface HistoryEntry extends InputSettings {
   id: number;
   label: string;
   data: string;
@@ -29,7 +49,7 @@ interface BatchResult {
   line: number;
   input: string;
   results: KLVEntry[];
-  errors: string[];
+  errors: KLVParseError[];
 }
 
 const App: React.FC = () => {
@@ -37,11 +57,80 @@ const App: React.FC = () => {
   const [klvInput, setKlvInput] = useState<string>('00206AB48DE026044577');
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [showRaw, setShowRaw] = useState<boolean>(false);
+  const [showObject, setShowObject] = useState<boolean>(false);
+  // How repeated keys are resolved in the object view; 'error' also reports them while parsing
+  const [duplicateMode, setDuplicateMode] = useState<KLVDuplicateMode>('first');
+  const [recoverErrors, setRecoverErrors] = useState<boolean>(false);
+  // Reference date for expiry checks, as YYYY-MM-DD; empty means today
+  const [asOf, setAsOf] = useState<string>('');
+  const [dialectId, setDialectId] = useState<KLVDialectId>('standard');
+  const [lengthUnit, setLengthUnit] = useState<KLVLengthUnit>('utf16');
+  // Message profile to check the keys against; empty for none
+  const [profileId, setProfileId] = useState<MessageProfileId | ''>('');
+  const [rulePacks, setRulePacks] = useState<RulePackSetting[]>([{ id: 'default', pack: KLVRules.defaultRulePack, enabled: true }]);
+  const [inputMode, setInputMode] = useState<InputMode>('ascii');
+  const [keyFormat, setKeyFormat] = useState<BinaryKeyFormat>('ul16');
+  // Positions of composite entries whose subfields are expanded
+  const [expandedEntries, setExpandedEntries] = useState<Set<number>>(new Set());
   const [, setBatchResults] = useState<BatchResult[]>([]);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  // Message loaded into the Builder for editing
+  const [builderSource, setBuilderSource] = useState<KLVBuilderSource | null>(null);
+  // Hide sensitive values everywhere they are displayed, copied or exported
+  const [maskSensitive, setMaskSensitive] = useState<boolean>(true);
+  // PCI-safe mode: card and PIN data is redacted before it is stored or loaded
+  const [pciPolicy, setPciPolicy] = useState<PCIPolicy>('off');
+  // A file redacted as it was loaded; tokenising it again on save would change it
+  const [redactedInput, setRedactedInput] = useState<string | null>(null);
+  // Positions of sensitive entries the user has explicitly revealed
+  const [revealedEntries, setRevealedEntries] = useState<Set<number>>(new Set());
+  const inputRef = useRef<HTMLTextAreaElement>(null);
 
   // Parse KLV data
-  const { results, errors } = useMemo(() => KLVParser.parse(klvInput), [klvInput]);
+  const dialect = KLVParser.dialects[dialectId];
+  const { results, errors } = useMemo(
+    () => inputMode === 'binary'
+      ? BinaryKLVParser.parseHex(klvInput, { keyFormat })
+      : KLVParser.parse(klvInput, { recover: recoverErrors, dialect, duplicates: duplicateMode, lengthUnit }),
+    [klvInput, inputMode, keyFormat, recoverErrors, dialect, duplicateMode, lengthUnit]
+  );
+  // Other length units that would split the same input into different entries
+  const framingConflicts = useMemo(
+    () => inputMode === 'ascii'
+      ? KLVParser.findFramingConflicts(klvInput, { recover: recoverErrors, dialect, lengthUnit })
+      : [],
+    [klvInput, inputMode, recoverErrors, dialect, lengthUnit]
+  );
+  // Schema checks only apply to the ASCII payment fields
+  const warnings = useMemo(
+    () => inputMode === 'ascii'
+      ? KLVParser.checkFields(results, dialect, asOf ? new Date(`${asOf}T00:00:00Z`) : new Date())
+      : [],
+    [results, inputMode, dialect, asOf]
+  );
+  const profileResult = useMemo(
+    () => profileId && inputMode === 'ascii' && dialect.keyWidth === 3
+      ? KLVParser.checkProfile(results, profileId)
+      : null,
+    [results, inputMode, dialect, profileId]
+  );
+  // Cross-field rules are written against the payment keys too
+  const violations = useMemo(
+    () => inputMode === 'ascii' && dialect.keyWidth === 3
+      ? KLVRules.evaluate(results, rulePacks.filter(p => p.enabled).map(p => p.pack), maskSensitive || pciPolicy !== 'off')
+      : [],
+    [results, inputMode, dialect, rulePacks, maskSensitive, pciPolicy]
+  );
+
+  // Sensitivity is classified on the payment field definitions, so only ASCII input is masked.
+  // PCI-safe mode keeps masking on.
+  const pciSafe = pciPolicy !== 'off';
+  const masking = (maskSensitive || pciSafe) && inputMode === 'ascii';
+
+  // Reveals belong to the values they were made for
+  useEffect(() => {
+    setRevealedEntries(new Set());
+  }, [results, masking]);
 
   // Filter results based on search
   const filteredResults = useMemo(() => {
@@ -50,7 +139,8 @@ const App: React.FC = () => {
     return results.filter(item => 
       item.key.includes(searchTerm) ||
       item.value.toLowerCase().includes(term) ||
-      item.name.toLowerCase().includes(term)
+      item.name.toLowerCase().includes(term) ||
+      (item.formattedValue || '').toLowerCase().includes(term)
     );
   }, [results, searchTerm]);
 
@@ -59,6 +149,7 @@ const App: React.FC = () => {
     { id: 'extractor', label: 'Extractor', icon: Database },
     { id: 'builder', label: 'Builder', icon: Settings },
     { id: 'batch', label: 'Batch', icon: FileText },
+    { id: 'compare', label: 'Compare', icon: GitCompare },
     { id: 'history', label: 'History', icon: Copy }
   ];
 
@@ -68,27 +159,74 @@ const App: React.FC = () => {
     '04210000050010008USD04305Test Merchant25103EMV25107Visa',
     '04210050026055422600512345678042036MERCHANT_ID_12343015Test Transaction'
   ];
+  // Security Classification UL packet (SMPTE ST 336M), value 01 = UNCLASSIFIED
+  const binarySample = '060E2B34010101010E01020301010000 01 01';
+  // MISB ST 0601 UAS Datalink packet with a valid tag 1 checksum
+  const misbSample = '060E2B34020B01010E01030101000000 30 0208000459F4A6AA4AA8 03094D495353494F4E3031 050271C2 0D045595B66D 0E045B5360C4 0F02C221 41010D 01026A10';
 
   // Utility functions
-  const addToHistory = (data: string, label?: string) => {
+  const currentSettings = (): InputSettings => ({ mode: inputMode, dialectId, lengthUnit, keyFormat });
+
+  const applySettings = (settings: InputSettings) => {
+    setInputMode(settings.mode);
+    setDialectId(settings.dialectId);
+    setLengthUnit(settings.lengthUnit);
+    setKeyFormat(settings.keyFormat);
+  };
+
+  const parseWith = (data: string, settings: InputSettings): KLVParseResult => (
+    settings.mode === 'binary'
+      ? BinaryKLVParser.parseHex(data, { keyFormat: settings.keyFormat })
+      : KLVParser.parse(data, { dialect: KLVParser.dialects[settings.dialectId], lengthUnit: settings.lengthUnit })
+  );
+
+  // Redact PCI data from ASCII input when PCI-safe mode is on
+  const redactWith = (data: string, settings: InputSettings): string => (
+    pciPolicy !== 'off' && settings.mode === 'ascii'
+      ? KLVParser.redact(data, pciPolicy, KLVParser.dialects[settings.dialectId], settings.lengthUnit)
+      : data
+  );
+
+  const addToHistory = (
+    rawData: string,
+    label?: string,
+    settings: InputSettings = currentSettings(),
+    redacted: boolean = rawData === redactedInput
+  ) => {
+    const data = redacted ? rawData : redactWith(rawData, settings);
     const entry: HistoryEntry = {
       id: Date.now(),
       label: label || `Entry ${history.length + 1}`,
       data,
       timestamp: new Date().toLocaleString(),
-      resultCount: KLVParser.parse(data).results.length
+      resultCount: parseWith(data, settings).results.length,
+      ...settings
     };
     setHistory([entry, ...history.slice(0, 9)]); // Keep last 10
   };
 
-  const loadFromHistory = (data: string) => {
-    setKlvInput(data);
+  const loadFromHistory = (entry: HistoryEntry) => {
+    applySettings(entry);
+    setKlvInput(entry.data);
     setActiveTab('extractor');
   };
 
   const handleFileLoad = (content: string, filename: string) => {
-    setKlvInput(content);
-    addToHistory(content, `File: ${filename}`);
+    const settings: InputSettings = { ...currentSettings(), mode: 'ascii' };
+    const data = redactWith(content, settings);
+    applySettings(settings);
+    setKlvInput(data);
+    setRedactedInput(pciPolicy !== 'off' ? data : null);
+    addToHistory(data, `File: ${filename}`, settings, true);
+    setActiveTab('extractor');
+  };
+
+  const handleBinaryLoad = (bytes: Uint8Array, filename: string) => {
+    const hex = BinaryKLVParser.bytesToHex(bytes, ' ');
+    const settings: InputSettings = { ...currentSettings(), mode: 'binary' };
+    applySettings(settings);
+    setKlvInput(hex);
+    addToHistory(hex, `File: ${filename}`, settings);
     setActiveTab('extractor');
   };
 
@@ -96,12 +234,70 @@ const App: React.FC = () => {
     setBatchResults(results);
   };
 
-  const handleBuilderResult = (klvString: string) => {
+  const handleBuilderResult = (klvString: string, builtDialectId: KLVDialectId, builtLengthUnit: KLVLengthUnit) => {
+    const settings: InputSettings = { ...currentSettings(), mode: 'ascii', dialectId: builtDialectId, lengthUnit: builtLengthUnit };
+    applySettings(settings);
     setKlvInput(klvString);
-    addToHistory(klvString, 'Built KLV');
+    addToHistory(klvString, 'Built KLV', settings);
+    setBuilderSource(null);
     setActiveTab('extractor');
   };
 
+  const editInBuilder = (label: string, data: string, settings: InputSettings) => {
+    setBuilderSource({ label, klv: data, dialectId: settings.dialectId, lengthUnit: settings.lengthUnit });
+    setActiveTab('builder');
+  };
+
+  // Only well-framed ASCII messages can be split into Builder rows without losing data
+  const canEditHistoryEntry = (entry: HistoryEntry): boolean => (
+    entry.mode === 'ascii' && parseWith(entry.data, entry).errors.length === 0
+  );
+
+  // Select the characters an entry or error came from in the input textarea
+  const showInInput = (source?: KLVSourceSpan) => {
+    const textarea = inputRef.current;
+    if (!textarea || !source) return;
+    textarea.focus();
+    textarea.setSelectionRange(source.offset, source.endOffset);
+  };
+
+  const toggleExpanded = (pos: number) => {
+    setExpandedEntries(prev => {
+      const next = new Set(prev);
+      if (next.has(pos)) {
+        next.delete(pos);
+      } else {
+        next.add(pos);
+      }
+      return next;
+    });
+  };
+
+  const toggleRevealed = (pos: number) => {
+    setRevealedEntries(prev => {
+      const next = new Set(prev);
+      if (next.has(pos)) {
+        next.delete(pos);
+      } else {
+        next.add(pos);
+      }
+      return next;
+    });
+  };
+
+  const displayEntry = (item: KLVEntry): KLVEntry => (
+    masking && !revealedEntries.has(item.pos) ? KLVParser.maskEntry(item) : item
+  );
+
+  // Object view of the values as displayed, so masking carries over
+  const objectView = showObject ? KLVParser.toObject(results.map(displayEntry), duplicateMode) : null;
+
+  const displayHistoryData = (entry: HistoryEntry): string => {
+    if (!(maskSensitive || pciSafe) || entry.mode !== 'ascii') return entry.data;
+    const entryDialect = KLVParser.dialects[entry.dialectId];
+    return KLVParser.maskInput(entry.data, parseWith(entry.data, entry).results, entryDialect);
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -119,9 +315,45 @@ const App: React.FC = () => {
           <h1 className="text-3xl font-bold mb-2 text-gray-800">
             KLV Data Extraction Suite
           </h1>
-          <p className="text-gray-600">
-            Complete toolkit for KLV data processing, parsing, and analysis
-          </p>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <p className="text-gray-600">
+              Complete toolkit for KLV data processing, parsing, and analysis
+            </p>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={maskSensitive || pciSafe}
+                  disabled={pciSafe}
+                  onChange={(e) => setMaskSensitive(e.target.checked)}
+                />
+                <Lock size={14} />
+                Mask sensitive fields
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                PCI-safe mode
+                <select
+                  value={pciPolicy}
+                  onChange={(e) => setPciPolicy(e.target.value as PCIPolicy)}
+                  className="p-1 border border-gray-300 rounded text-sm"
+                >
+                  <option value="off">Off</option>
+                  <option value="strip">Strip PAN/PIN</option>
+                  <option value="tokenise">Tokenise PAN/PIN</option>
+                </select>
+              </label>
+            </div>
+          </div>
+          {pciSafe && (
+            <div role="status" className="mt-4 flex items-center gap-2 bg-green-50 border-l-4 border-green-500 p-3 text-sm text-green-800">
+              <ShieldCheck size={16} />
+              <span>
+                <strong>PCI-safe mode active:</strong> card numbers and PIN data are{' '}
+                {pciPolicy === 'strip' ? 'stripped' : 'tokenised'} before they are saved to History
+                or loaded from files, and exports are always masked.
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Navigation Tabs */}
@@ -160,6 +392,7 @@ const App: React.FC = () => {
                       KLV Data Input
                     </label>
                     <textarea
+                      ref={inputRef}
                       value={klvInput}
                       onChange={(e) => setKlvInput(e.target.value)}
                       placeholder="Enter KLV data (e.g., 00206AB48DE026044577)..."
@@ -177,28 +410,141 @@ const App: React.FC = () => {
                       {sampleData.map((sample, i) => (
                         <button
                           key={i}
-                          onClick={() => setKlvInput(sample)}
+                          onClick={() => {
+                            setInputMode('ascii');
+                            setKlvInput(sample);
+                          }}
                           className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200 transition-colors"
                         >
                           Sample {i + 1}
                         </button>
                       ))}
+                      <button
+                        onClick={() => {
+                          setInputMode('binary');
+                          setKeyFormat('ul16');
+                          setKlvInput(binarySample);
+                        }}
+                        className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200 transition-colors"
+                      >
+                        Binary Sample
+                      </button>
+                      <button
+                        onClick={() => {
+                          setInputMode('binary');
+                          setKeyFormat('ul16');
+                          setKlvInput(misbSample);
+                        }}
+                        className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200 transition-colors"
+                      >
+                        MISB Sample
+                      </button>
                     </div>
+                    <div className="flex items-center gap-4 mt-2 flex-wrap">
+                      <label className="flex items-center gap-2 text-sm text-gray-600">
+                        Format
+                        <select
+                          value={inputMode}
+                          onChange={(e) => setInputMode(e.target.value as InputMode)}
+                          className="p-1 border border-gray-300 rounded text-sm"
+                        >
+                          <option value="ascii">ASCII KLV</option>
+                          <option value="binary">Binary KLV (SMPTE 336M, hex)</option>
+                        </select>
+                      </label>
+                      {inputMode === 'binary' ? (
+                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                          Key format
+                          <select
+                            value={keyFormat}
+                            onChange={(e) => setKeyFormat(e.target.value as BinaryKeyFormat)}
+                            className="p-1 border border-gray-300 rounded text-sm"
+                          >
+                            {Object.entries(BinaryKLVParser.keyFormats).map(([id, name]) => (
+                              <option key={id} value={id}>{name}</option>
+                            ))}
+                          </select>
+                        </label>
+                      ) : (
+                        <>
+                          <DialectSelector value={dialectId} onChange={setDialectId} />
+                          <LengthUnitSelector value={lengthUnit} onChange={setLengthUnit} />
+                          <label className="flex items-center gap-2 text-sm text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={recoverErrors}
+                              onChange={(e) => setRecoverErrors(e.target.checked)}
+                            />
+                            Recovery mode (skip corrupt entries and keep parsing)
+                          </label>
+                          <label className="flex items-center gap-2 text-sm text-gray-600">
+                            Duplicate keys
+                            <select
+                              value={duplicateMode}
+                              onChange={(e) => setDuplicateMode(e.target.value as KLVDuplicateMode)}
+                              className="p-1 border border-gray-300 rounded text-sm"
+                            >
+                              <option value="first">First wins</option>
+                              <option value="last">Last wins</option>
+                              <option value="error">Error</option>
+                              <option value="array">Collect into array</option>
+                            </select>
+                          </label>
+                          <label className="flex items-center gap-2 text-sm text-gray-600">
+                            Profile
+                            <select
+                              value={profileId}
+                              onChange={(e) => setProfileId(e.target.value as MessageProfileId | '')}
+                              className="p-1 border border-gray-300 rounded text-sm"
+                            >
+                              <option value="">None</option>
+                              {Object.entries(KLVParser.profiles).map(([id, profile]) => (
+                                <option key={id} value={id}>{profile.name}</option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="flex items-center gap-2 text-sm text-gray-600">
+                            Expiries as of
+                            <input
+                              type="date"
+                              value={asOf}
+                              onChange={(e) => setAsOf(e.target.value)}
+                              className="p-1 border border-gray-300 rounded text-sm"
+                            />
+                          </label>
+                        </>
+                      )}
+                    </div>
+                    {inputMode === 'ascii' && (
+                      <div className="mt-2">
+                        <RulePackPanel packs={rulePacks} onChange={setRulePacks} />
+                      </div>
+                    )}
                   </div>
                   
                   <div>
                     <label className="block font-medium mb-2 text-gray-700">
                       File Upload
                     </label>
-                    <FileUpload onFileLoad={handleFileLoad} />
+                    <FileUpload onFileLoad={handleFileLoad} onBinaryLoad={handleBinaryLoad} />
                   </div>
                 </div>
 
                 {/* Results Section */}
                 {(results.length > 0 || errors.length > 0) && (
                   <>
-                    <Statistics results={results} />
+                    <Statistics
+                      results={results}
+                      onSelectGroup={(group) => setSearchTerm(KLVParser.mccGroups[group].label)}
+                    />
                     
+                    {framingConflicts.length > 0 && (
+                      <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 text-sm text-yellow-800">
+                        Lengths are counted in {KLVParser.lengthUnits[lengthUnit]}; this input would be framed
+                        differently in {framingConflicts.map(unit => KLVParser.lengthUnits[unit]).join(', ')}.
+                      </div>
+                    )}
+
                     {/* Error Display */}
                     {errors.length > 0 && (
                       <div className="bg-red-50 border-l-4 border-red-400 p-4">
@@ -213,7 +559,75 @@ const App: React.FC = () => {
                         <div className="text-red-700 text-sm">
                           <ul className="list-disc list-inside space-y-1">
                             {errors.map((error, index) => (
-                              <li key={index}>{error}</li>
+                              <li key={index}>
+                                <span className="font-mono text-xs bg-red-100 px-1 rounded mr-2">{error.code}</span>
+                                {error.message}
+                                {error.source && (
+                                  <button
+                                    onClick={() => showInInput(error.source)}
+                                    className="ml-2 text-xs underline hover:text-red-900"
+                                    title="Select in input"
+                                  >
+                                    Line {error.source.line}, Col {error.source.column}
+                                  </button>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Field Warning Display */}
+                    {warnings.length > 0 && (
+                      <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4">
+                        <div className="text-yellow-800 font-medium mb-2">Field Warnings</div>
+                        <div className="text-yellow-700 text-sm">
+                          <ul className="list-disc list-inside space-y-1">
+                            {warnings.map((warning, index) => (
+                              <li key={index}>
+                                <span className="font-mono text-xs bg-yellow-100 px-1 rounded mr-2">{warning.code}</span>
+                                {warning.message}
+                                {warning.source && (
+                                  <button
+                                    onClick={() => showInInput(warning.source)}
+                                    className="ml-2 text-xs underline hover:text-yellow-900"
+                                    title="Select in input"
+                                  >
+                                    Line {warning.source.line}, Col {warning.source.column}
+                                  </button>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Profile Checklist */}
+                    {profileResult && <ProfileChecklist result={profileResult} />}
+
+                    {/* Rule Violation Display */}
+                    {violations.length > 0 && (
+                      <div className="bg-orange-50 border-l-4 border-orange-400 p-4">
+                        <div className="text-orange-800 font-medium mb-2">Rule Violations</div>
+                        <div className="text-orange-700 text-sm">
+                          <ul className="list-disc list-inside space-y-1">
+                            {violations.map((violation, index) => (
+                              <li key={index}>
+                                <span className="font-mono text-xs bg-orange-100 px-1 rounded mr-2">{violation.ruleId}</span>
+                                {violation.message}
+                                {violation.severity === 'warning' && <span className="ml-1 text-xs">(warning)</span>}
+                                {violation.source && (
+                                  <button
+                                    onClick={() => showInInput(violation.source)}
+                                    className="ml-2 text-xs underline hover:text-orange-900"
+                                    title="Select in input"
+                                  >
+                                    Line {violation.source.line}, Col {violation.source.column}
+                                  </button>
+                                )}
+                              </li>
                             ))}
                           </ul>
                         </div>
@@ -248,9 +662,33 @@ const App: React.FC = () => {
                               {showRaw ? <EyeOff size={16} /> : <Eye size={16} />}
                               {showRaw ? 'Hide Raw' : 'Show Raw'}
                             </button>
+
+                            {/* Toggle Object View */}
+                            <button
+                              onClick={() => setShowObject(!showObject)}
+                              className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50 transition-colors"
+                            >
+                              <Braces size={16} />
+                              {showObject ? 'Hide Object' : 'Show Object'}
+                            </button>
+                            
+                            {inputMode === 'ascii' && errors.length === 0 && (
+                              <button
+                                onClick={() => editInBuilder('Extractor input', klvInput, currentSettings())}
+                                className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50 transition-colors"
+                              >
+                                <Pencil size={16} />
+                                Edit in Builder
+                              </button>
+                            )}
                             
                             {/* Export */}
-                            <ExportPanel results={filteredResults} />
+                            <ExportPanel
+                              results={filteredResults}
+                              dialect={inputMode === 'ascii' ? dialect : undefined}
+                              lengthUnit={lengthUnit}
+                              mask={masking}
+                            />
                           </div>
                         </div>
 
@@ -258,13 +696,29 @@ const App: React.FC = () => {
                         {showRaw && (
                           <div className="mb-4 p-3 bg-gray-100 rounded border font-mono text-sm break-all">
                             <span className="text-gray-600">Raw KLV: </span>
-                            <span className="text-gray-800">{klvInput.replace(/\s/g, '')}</span>
+                            <span className="text-gray-800">
+                              {masking ? KLVParser.maskInput(klvInput, results, dialect) : klvInput.replace(/\s/g, '')}
+                            </span>
+                          </div>
+                        )}
+
+                        {/* Object View */}
+                        {showObject && (
+                          <div className="mb-4 p-3 bg-gray-100 rounded border font-mono text-sm">
+                            <div className="text-gray-600 mb-1">Object ({duplicateMode}):</div>
+                            {objectView ? (
+                              <pre className="text-gray-800 whitespace-pre-wrap break-all">{JSON.stringify(objectView, null, 2)}</pre>
+                            ) : (
+                              <div className="text-red-700">
+                                Repeated keys {Object.keys(KLVParser.findDuplicates(results)).join(', ')} have no single value in error mode
+                              </div>
+                            )}
                           </div>
                         )}
 
                         {/* KLV Entries */}
                         <div className="space-y-3">
-                          {filteredResults.map((item, i) => (
+                          {filteredResults.map(displayEntry).map((item, i) => (
                             <div key={i} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
                               <div className="flex items-center justify-between mb-3">
                                 <div className="flex items-center gap-3">
@@ -277,17 +731,37 @@ const App: React.FC = () => {
                                   <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
                                     Len: {item.len}
                                   </span>
-                                  <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
+                                  {item.duplicate && (
+                                    <span className="text-xs text-yellow-800 bg-yellow-100 px-2 py-1 rounded" title="This key already appeared earlier in the message">
+                                      Duplicate
+                                    </span>
+                                  )}
+                                  <button
+                                    onClick={() => showInInput(item.source)}
+                                    className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded hover:bg-gray-200"
+                                    title={item.source ? `Line ${item.source.line}, Col ${item.source.column} in input` : undefined}
+                                  >
                                     Pos: {item.pos}
-                                  </span>
+                                  </button>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  {masking && KLVParser.sensitivity[item.key] && (
+                                    <button
+                                      onClick={() => toggleRevealed(item.pos)}
+                                      className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                                      title={revealedEntries.has(item.pos) ? 'Mask value' : 'Reveal value'}
+                                    >
+                                      {revealedEntries.has(item.pos) ? <EyeOff size={16} /> : <Eye size={16} />}
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => copyToClipboard(item.value)}
+                                    className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                                    title="Copy value"
+                                  >
+                                    <Copy size={16} />
+                                  </button>
                                 </div>
-                                <button
-                                  onClick={() => copyToClipboard(item.value)}
-                                  className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
-                                  title="Copy value"
-                                >
-                                  <Copy size={16} />
-                                </button>
                               </div>
                               
                               <div>
@@ -305,6 +779,59 @@ const App: React.FC = () => {
                                   )}
                                 </div>
                               </div>
+
+                              {item.panInfo && (
+                                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                                  <span className="px-2 py-1 rounded bg-gray-100 text-gray-700">
+                                    {item.panInfo.brand || 'Unknown brand'}
+                                  </span>
+                                  {item.panInfo.luhnValid === null ? (
+                                    <span className="px-2 py-1 rounded bg-gray-100 text-gray-500">Luhn not checked (masked)</span>
+                                  ) : (
+                                    <span className={`px-2 py-1 rounded ${item.panInfo.luhnValid ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                                      {item.panInfo.luhnValid ? 'Luhn OK' : 'Luhn failed'}
+                                    </span>
+                                  )}
+                                  {!item.panInfo.lengthValid && (
+                                    <span className="px-2 py-1 rounded bg-red-100 text-red-700">Invalid length</span>
+                                  )}
+                                  {!item.panInfo.brandValid && (
+                                    <span className="px-2 py-1 rounded bg-red-100 text-red-700">Expected {item.panInfo.expectedBrand}</span>
+                                  )}
+                                </div>
+                              )}
+
+                              {item.lastFourMatch !== undefined && (
+                                <div className="mt-2 flex text-xs">
+                                  <span className={`px-2 py-1 rounded ${item.lastFourMatch ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                                    {item.lastFourMatch ? 'Matches PAN' : 'Does not match PAN'}
+                                  </span>
+                                </div>
+                              )}
+
+                              {item.conversionInfo && (
+                                <div className="mt-2 text-sm text-gray-700">
+                                  <span className="font-medium">Cross-check:</span>{' '}
+                                  {item.conversionInfo.originalAmount} × {item.formattedValue} = {item.conversionInfo.convertedAmount} (cardholder currency)
+                                </div>
+                              )}
+
+                              {item.children && (
+                                <div className="mt-3">
+                                  <button
+                                    onClick={() => toggleExpanded(item.pos)}
+                                    className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-gray-800"
+                                  >
+                                    {expandedEntries.has(item.pos) ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                    Subfields ({item.children.length})
+                                  </button>
+                                  {expandedEntries.has(item.pos) && (
+                                    <div className="mt-2">
+                                      <SubfieldTree entries={item.children} />
+                                    </div>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -344,15 +871,27 @@ const App: React.FC = () => {
             )}
 
             {/* KLV Builder Tab */}
-            {activeTab === 'builder' && <KLVBuilder onBuild={handleBuilderResult} />}
+            {activeTab === 'builder' && (
+              <KLVBuilder onBuild={handleBuilderResult} source={builderSource || undefined} mask={maskSensitive || pciSafe} />
+            )}
 
             {/* Batch Processor Tab */}
             {activeTab === 'batch' && (
               <div className="space-y-6">
-                <BatchProcessor onProcess={handleBatchProcess} />
+                <BatchProcessor onProcess={handleBatchProcess} mask={maskSensitive || pciSafe} />
               </div>
             )}
 
+            {/* Compare Tab */}
+            {activeTab === 'compare' && (
+              <CompareView
+                history={history
+                  .filter(entry => entry.mode === 'ascii')
+                  .map(({ id, label, data, dialectId, lengthUnit }) => ({ id, label, klv: data, dialectId, lengthUnit }))}
+                mask={maskSensitive || pciSafe}
+              />
+            )}
+
             {/* History Tab */}
             {activeTab === 'history' && (
               <div className="space-y-4">
@@ -380,35 +919,46 @@ const App: React.FC = () => {
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {history.map((entry) => (
-                      <div key={entry.id} className="border border-gray-200 rounded-lg p-4">
-                        <div className="flex items-center justify-between mb-3">
-                          <div>
-                            <span className="font-medium text-gray-900">{entry.label}</span>
-                            <div className="text-xs text-gray-500 mt-1">
-                              {entry.timestamp} • {entry.resultCount} entries
+                    {history.map((entry) => {
+                      const data = displayHistoryData(entry);
+                      return (
+                        <div key={entry.id} className="border border-gray-200 rounded-lg p-4">
+                          <div className="flex items-center justify-between mb-3">
+                            <div>
+                              <span className="font-medium text-gray-900">{entry.label}</span>
+                              <div className="text-xs text-gray-500 mt-1">
+                                {entry.timestamp} • {entry.resultCount} entries
+                              </div>
+                            </div>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => copyToClipboard(data)}
+                                className="px-3 py-1 text-gray-600 border border-gray-300 rounded text-sm hover:bg-gray-50 transition-colors"
+                              >
+                                Copy
+                              </button>
+                              <button
+                                onClick={() => loadFromHistory(entry)}
+                                className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200 transition-colors"
+                              >
+                                Load
+                              </button>
+                              {canEditHistoryEntry(entry) && (
+                                <button
+                                  onClick={() => editInBuilder(entry.label, entry.data, entry)}
+                                  className="px-3 py-1 text-gray-600 border border-gray-300 rounded text-sm hover:bg-gray-50 transition-colors"
+                                >
+                                  Edit in Builder
+                                </button>
+                              )}
                             </div>
                           </div>
-                          <div className="flex gap-2">
-                            <button
-                              onClick={() => copyToClipboard(entry.data)}
-                              className="px-3 py-1 text-gray-600 border border-gray-300 rounded text-sm hover:bg-gray-50 transition-colors"
-                            >
-                              Copy
-                            </button>
-                            <button
-                              onClick={() => loadFromHistory(entry.data)}
-                              className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200 transition-colors"
-                            >
-                              Load
-                            </button>
+                          <div className="bg-gray-50 border p-3 rounded font-mono text-xs break-all text-gray-600">
+                            {data.length > 200 ? `${data.slice(0, 200)}...` : data}
                           </div>
                         </div>
-                        <div className="bg-gray-50 border p-3 rounded font-mono text-xs break-all text-gray-600">
-                          {entry.data.length > 200 ? `${entry.data.slice(0, 200)}...` : entry.data}
-                        </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -441,7 +991,7 @@ const App: React.FC = () => {
             <div className="bg-yellow-50 p-3 rounded">
               <strong className="text-yellow-800">Features:</strong>
               <div className="text-yellow-700 mt-1">Parse, Build, Batch</div>
-              <div className="text-yellow-600 text-xs mt-1">Export to JSON, CSV, Table</div>
+              <div className="text-yellow-600 text-xs mt-1">Export to JSON, CSV, Table, KLV</div>
             </div>
           </div>
         </div>
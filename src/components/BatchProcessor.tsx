@@ -1,20 +1,32 @@
 import React, { useState } from 'react';
 import { CheckCircle, AlertCircle, FileText } from 'lucide-react';
-import KLVParser, { KLVParseResult } from '../utils/KLVParser';
+import KLVParser, { KLVDialectId, KLVErrorCode, KLVParseResult } from '../utils/KLVParser';
+import { MCCGroup } from '../utils/mcc';
+import DialectSelector from './DialectSelector';
+import Statistics from './Statistics';
 
 interface BatchResult extends KLVParseResult {
   line: number;
   input: string;
 }
 
+type MCCFilter = 'all' | 'high-risk' | MCCGroup;
+
 interface BatchProcessorProps {
   onProcess: (results: BatchResult[]) => void;
+  /** Mask sensitive values in the input lines */
+  mask?: boolean;
 }
 
-const BatchProcessor: React.FC<BatchProcessorProps> = ({ onProcess }) => {
+const BatchProcessor: React.FC<BatchProcessorProps> = ({ onProcess, mask }) => {
   const [batchInput, setBatchInput] = useState<string>('');
   const [processing, setProcessing] = useState<boolean>(false);
+  const [recoverErrors, setRecoverErrors] = useState<boolean>(false);
+  const [dialectId, setDialectId] = useState<KLVDialectId>('standard');
   const [results, setResults] = useState<BatchResult[]>([]);
+  // Masking needs the framing the lines were parsed with, not the one selected since
+  const [processedDialectId, setProcessedDialectId] = useState<KLVDialectId>('standard');
+  const [mccFilter, setMccFilter] = useState<MCCFilter>('all');
 
   const processBatch = async () => {
     setProcessing(true);
@@ -23,13 +35,14 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ onProcess }) => {
     const batchResults: BatchResult[] = lines.map((line, index) => ({
       line: index + 1,
       input: line.trim(),
-      ...KLVParser.parse(line.trim())
+      ...KLVParser.parse(line.trim(), { recover: recoverErrors, dialect: KLVParser.dialects[dialectId] })
     }));
     
     // Simulate processing delay for better UX
     await new Promise(resolve => setTimeout(resolve, 500));
     
     setResults(batchResults);
+    setProcessedDialectId(dialectId);
     setProcessing(false);
     onProcess(batchResults);
   };
@@ -44,9 +57,25 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ onProcess }) => {
     setBatchInput(sampleData);
   };
 
+  // Group failures by error code so recurring causes stand out across lines
+  const errorCounts = results.reduce<Partial<Record<KLVErrorCode, number>>>((counts, result) => {
+    result.errors.forEach(error => {
+      counts[error.code] = (counts[error.code] || 0) + 1;
+    });
+    return counts;
+  }, {});
+
+  // Lines are kept when any of their entries has a matching MCC
+  const visibleResults = mccFilter === 'all' ? results : results.filter(result =>
+    result.results.some(entry => entry.mccInfo && (
+      mccFilter === 'high-risk' ? entry.mccInfo.highRisk : entry.mccInfo.group === mccFilter
+    ))
+  );
+
   const clearBatch = () => {
     setBatchInput('');
     setResults([]);
+    setMccFilter('all');
   };
 
   return (
@@ -88,6 +117,18 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ onProcess }) => {
         </div>
       </div>
       
+      <div className="flex items-center gap-4 flex-wrap">
+        <DialectSelector value={dialectId} onChange={setDialectId} />
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={recoverErrors}
+            onChange={(e) => setRecoverErrors(e.target.checked)}
+          />
+          Recovery mode (skip corrupt entries and keep parsing)
+        </label>
+      </div>
+
       <button
         onClick={processBatch}
         disabled={processing || !batchInput.trim()}
@@ -112,9 +153,39 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ onProcess }) => {
               {results.filter(r => r.errors.length > 0).length} failed
             </div>
           </div>
+
+          <Statistics results={results.flatMap(result => result.results)} onSelectGroup={setMccFilter} />
+
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            MCC filter
+            <select
+              value={mccFilter}
+              onChange={(e) => setMccFilter(e.target.value as MCCFilter)}
+              className="p-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="all">All lines</option>
+              <option value="high-risk">High-risk MCCs only</option>
+              {(Object.entries(KLVParser.mccGroups) as [MCCGroup, { label: string }][]).map(([group, info]) => (
+                <option key={group} value={group}>{info.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {Object.keys(errorCounts).length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {Object.entries(errorCounts).map(([code, count]) => (
+                <span key={code} className="px-2 py-1 bg-red-100 text-red-700 rounded font-mono">
+                  {code}: {count}
+                </span>
+              ))}
+            </div>
+          )}
           
           <div className="space-y-2 max-h-96 overflow-y-auto">
-            {results.map((result, i) => (
+            {visibleResults.length === 0 && (
+              <div className="text-sm text-gray-500">No lines match the MCC filter</div>
+            )}
+            {visibleResults.map((result, i) => (
               <div key={i} className={`border rounded p-3 ${
                 result.errors.length === 0 ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
               }`}>
@@ -136,12 +207,12 @@ const BatchProcessor: React.FC<BatchProcessorProps> = ({ onProcess }) => {
                 </div>
                 
                 <div className="bg-white p-2 rounded font-mono text-xs break-all mb-2 border">
-                  {result.input}
+                  {mask ? KLVParser.maskInput(result.input, result.results, KLVParser.dialects[processedDialectId]) : result.input}
                 </div>
                 
                 {result.errors.length > 0 && (
                   <div className="text-red-600 text-xs">
-                    Errors: {result.errors.join(', ')}
+                    Errors: {result.errors.map(error => error.message).join(', ')}
                   </div>
                 )}
                 
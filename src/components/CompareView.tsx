@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import KLVParser, { KLVDialectId, KLVEntry, KLVLengthUnit } from '../utils/KLVParser';
+import DialectSelector from './DialectSelector';
+import LengthUnitSelector from './LengthUnitSelector';
+
+/**
+ * A saved message that can be picked for either side
+ */
+export interface CompareSource {
+  id: number;
+  label: string;
+  klv: string;
+  dialectId: KLVDialectId;
+  lengthUnit: KLVLengthUnit;
+}
+
+interface CompareViewProps {
+  history: CompareSource[];
+  /** Mask sensitive values in both messages */
+  mask?: boolean;
+}
+
+type EntryStatus = 'added' | 'removed' | 'changed' | 'reordered' | 'unchanged';
+
+const STATUS_STYLES: Record<EntryStatus, string> = {
+  added: 'bg-green-50 border-green-300 text-green-800',
+  removed: 'bg-red-50 border-red-300 text-red-800',
+  changed: 'bg-yellow-50 border-yellow-300 text-yellow-800',
+  reordered: 'bg-blue-50 border-blue-300 text-blue-800',
+  unchanged: 'border-gray-200 text-gray-700'
+};
+
+const STATUS_LABELS: Record<EntryStatus, string> = {
+  added: 'added',
+  removed: 'removed',
+  changed: 'changed',
+  reordered: 'moved',
+  unchanged: ''
+};
+
+const SIDES = ['A', 'B'] as const;
+
+const CompareView: React.FC<CompareViewProps> = ({ history, mask }) => {
+  const [inputs, setInputs] = useState<Record<'A' | 'B', string>>({ A: '', B: '' });
+  const [dialectId, setDialectId] = useState<KLVDialectId>('standard');
+  const [lengthUnit, setLengthUnit] = useState<KLVLengthUnit>('utf16');
+
+  const parsed = useMemo(() => {
+    const options = { dialect: KLVParser.dialects[dialectId], lengthUnit };
+    return { A: KLVParser.parse(inputs.A, options), B: KLVParser.parse(inputs.B, options) };
+  }, [inputs, dialectId, lengthUnit]);
+  const diff = KLVParser.diffEntries(parsed.A.results, parsed.B.results);
+  // A message that failed to parse may hide differences, so it is never reported as identical
+  const errorCount = parsed.A.errors.length + parsed.B.errors.length;
+
+  // Both sides share the framing, so picking an entry adopts the framing it was saved with.
+  // When masking, the textarea gets the masked message so clear values never reach the screen
+  const loadFromHistory = (side: 'A' | 'B', id: string) => {
+    const source = history.find(entry => String(entry.id) === id);
+    if (source) {
+      const dialect = KLVParser.dialects[source.dialectId];
+      const klv = mask
+        ? KLVParser.maskInput(source.klv, KLVParser.parse(source.klv, { dialect, lengthUnit: source.lengthUnit }).results, dialect)
+        : source.klv;
+      setInputs({ ...inputs, [side]: klv });
+      setDialectId(source.dialectId);
+      setLengthUnit(source.lengthUnit);
+    }
+  };
+
+  const statusOf = (side: 'A' | 'B', index: number): EntryStatus => {
+    const at = (entry: { oldIndex?: number; newIndex?: number }) => (side === 'A' ? entry.oldIndex : entry.newIndex) === index;
+    if ((side === 'A' ? diff.removed : diff.added).some(at)) return side === 'A' ? 'removed' : 'added';
+    if (diff.changed.some(at)) return 'changed';
+    if (diff.reordered.some(at)) return 'reordered';
+    return 'unchanged';
+  };
+
+  const displayValue = (entry: KLVEntry) => {
+    const sensitivity = KLVParser.sensitivity[entry.key];
+    return mask && sensitivity ? KLVParser.maskValue(entry.value, sensitivity) : entry.value;
+  };
+
+  const bothParsed = parsed.A.results.length > 0 && parsed.B.results.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <h3 className="font-semibold">Compare Messages</h3>
+        <div className="flex items-center gap-3">
+          <DialectSelector value={dialectId} onChange={setDialectId} />
+          <LengthUnitSelector value={lengthUnit} onChange={setLengthUnit} />
+        </div>
+      </div>
+
+      {bothParsed && (
+        <div className="text-sm text-gray-700" role="status">
+          {diff.identical && errorCount === 0
+            ? 'The messages are identical'
+            : `${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed, ${diff.reordered.length} moved`}
+          {errorCount > 0 && `, ${errorCount} parsing error${errorCount === 1 ? '' : 's'}`}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {SIDES.map(side => (
+          <div key={side} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label htmlFor={`compare-${side}`} className="text-sm font-medium">Message {side}</label>
+              {history.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => loadFromHistory(side, e.target.value)}
+                  aria-label={`Message ${side} from History`}
+                  className="p-1 border border-gray-300 rounded text-sm"
+                >
+                  <option value="" disabled>From History...</option>
+                  {history.map(entry => (
+                    <option key={entry.id} value={entry.id}>{entry.label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <textarea
+              id={`compare-${side}`}
+              value={inputs[side]}
+              onChange={(e) => setInputs({ ...inputs, [side]: e.target.value })}
+              placeholder="Paste a KLV message..."
+              className="w-full h-24 p-2 border border-gray-300 rounded font-mono text-sm"
+            />
+            {parsed[side].errors.length > 0 && (
+              <div className="text-sm text-red-600">
+                {parsed[side].errors.length} parsing error{parsed[side].errors.length === 1 ? '' : 's'}: {parsed[side].errors[0].message}
+              </div>
+            )}
+            <ul className="space-y-1" aria-label={`Message ${side} entries`}>
+              {parsed[side].results.map((entry, index) => {
+                const status = statusOf(side, index);
+                return (
+                  <li key={index} className={`flex items-center gap-2 px-2 py-1 border rounded text-sm ${STATUS_STYLES[status]}`}>
+                    <span className="font-mono">{entry.key}</span>
+                    <span className="text-xs">{entry.name}</span>
+                    <span className="font-mono break-all flex-1">{displayValue(entry)}</span>
+                    {status !== 'unchanged' && <span className="text-xs font-medium">{STATUS_LABELS[status]}</span>}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
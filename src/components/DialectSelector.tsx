@@ -0,0 +1,28 @@
+import React from 'react';
+import KLVParser, { KLVDialectId } from '../utils/KLVParser';
+
+interface DialectSelectorProps {
+  value: KLVDialectId;
+  onChange: (dialectId: KLVDialectId) => void;
+}
+
+const DialectSelector: React.FC<DialectSelectorProps> = ({ value, onChange }) => {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      Dialect
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as KLVDialectId)}
+        className="p-1 border border-gray-300 rounded text-sm"
+      >
+        {Object.entries(KLVParser.dialects).map(([id, dialect]) => (
+          <option key={id} value={id}>
+            {dialect.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default DialectSelector;
@@ -1,13 +1,18 @@
 import React from 'react';
-import KLVParser, { KLVEntry } from '../utils/KLVParser';
+import KLVParser, { KLVDialect, KLVEntry, KLVLengthUnit } from '../utils/KLVParser';
 
 interface ExportPanelProps {
   results: KLVEntry[];
+  dialect?: KLVDialect;
+  /** What the re-framed length fields count */
+  lengthUnit?: KLVLengthUnit;
+  /** Mask sensitive values in the exported file */
+  mask?: boolean;
 }
 
-type ExportFormat = 'json' | 'csv' | 'table';
+type ExportFormat = 'json' | 'csv' | 'table' | 'klv';
 
-const ExportPanel: React.FC<ExportPanelProps> = ({ results }) => {
+const ExportPanel: React.FC<ExportPanelProps> = ({ results, dialect, lengthUnit, mask }) => {
   const downloadFile = (content: string, filename: string, type: string) => {
     const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
@@ -21,13 +26,21 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ results }) => {
   };
 
   const exportData = (format: ExportFormat) => {
-    const content = KLVParser.export(results, format);
+    let content: string;
+    try {
+      content = KLVParser.export(results, format, { dialect, lengthUnit, mask });
+    } catch (error) {
+      // Only re-framing can fail, when a key or value doesn't fit the dialect
+      alert(`Cannot export as ${format.toUpperCase()}: ${(error as Error).message}`);
+      return;
+    }
     const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
-    const extensions: Record<ExportFormat, string> = { json: 'json', csv: 'csv', table: 'txt' };
+    const extensions: Record<ExportFormat, string> = { json: 'json', csv: 'csv', table: 'txt', klv: 'klv' };
     const mimeTypes: Record<ExportFormat, string> = { 
       json: 'application/json', 
       csv: 'text/csv', 
-      table: 'text/plain' 
+      table: 'text/plain',
+      klv: 'text/plain'
     };
     
     downloadFile(
@@ -64,6 +77,16 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ results }) => {
       >
         Table
       </button>
+      {/* Re-framing is only offered when the caller says which dialect to use */}
+      {dialect && (
+        <button
+          onClick={() => exportData('klv')}
+          className="px-3 py-1 bg-gray-100 text-gray-800 rounded text-sm hover:bg-gray-200 transition-colors"
+          title="Export as KLV"
+        >
+          KLV
+        </button>
+      )}
     </div>
   );
 };
@@ -3,9 +3,13 @@ import { Upload } from 'lucide-react';
 
 interface FileUploadProps {
   onFileLoad: (content: string, filename: string) => void;
+  /** Called instead of onFileLoad for binary (.bin, .klv) files when provided */
+  onBinaryLoad?: (bytes: Uint8Array, filename: string) => void;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileLoad }) => {
+const BINARY_EXTENSIONS = ['.bin', '.klv'];
+
+const FileUpload: React.FC<FileUploadProps> = ({ onFileLoad, onBinaryLoad }) => {
   const fileRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -13,8 +17,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoad }) => {
     if (!file) return;
 
     try {
-      const text = await file.text();
-      onFileLoad(text, file.name);
+      const isBinary = BINARY_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+      if (onBinaryLoad && isBinary) {
+        const buffer = await file.arrayBuffer();
+        onBinaryLoad(new Uint8Array(buffer), file.name);
+      } else {
+        const text = await file.text();
+        onFileLoad(text, file.name);
+      }
     } catch (error) {
       console.error('Error reading file:', error);
       alert('Error reading file. Please try again.');
@@ -29,13 +39,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileLoad }) => {
         ref={fileRef}
         type="file"
         onChange={handleFileChange}
-        accept=".txt,.log,.csv,.json"
+        accept={onBinaryLoad ? `.txt,.log,.csv,.json,${BINARY_EXTENSIONS.join(',')}` : '.txt,.log,.csv,.json'}
         className="hidden"
         aria-label="Upload KLV data file"
       />
       <Upload className="mx-auto mb-2 text-gray-400" size={24} />
       <p className="text-sm text-gray-600 mb-2">
-        Upload KLV data file (.txt, .log, .csv)
+        Upload KLV data file (.txt, .log, .csv{onBinaryLoad ? ', .bin, .klv' : ''})
       </p>
       <button
         onClick={() => fileRef.current?.click()}
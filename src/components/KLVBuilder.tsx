@@ -1,13 +1,109 @@
 import React, { useState } from 'react';
-import { Trash2, Plus } from 'lucide-react';
-import KLVParser, { KLVBuildEntry } from '../utils/KLVParser';
+import { Trash2, Plus, Braces, Eye, EyeOff } from 'lucide-react';
+import KLVParser, { KLVBuildEntry, KLVDiffEntry, KLVDiffResult, KLVDialect, KLVDialectId, KLVLengthUnit } from '../utils/KLVParser';
+import { MessageProfileId } from '../utils/profiles';
+import DialectSelector from './DialectSelector';
+import LengthUnitSelector from './LengthUnitSelector';
+
+/**
+ * An existing message to edit, framed the way it was captured
+ */
+export interface KLVBuilderSource {
+  label: string;
+  klv: string;
+  dialectId: KLVDialectId;
+  lengthUnit: KLVLengthUnit;
+}
 
 interface KLVBuilderProps {
-  onBuild: (klvString: string) => void;
+  onBuild: (klvString: string, dialectId: KLVDialectId, lengthUnit: KLVLengthUnit) => void;
+  /** Message to load into the rows; Build KLV then shows the changes before applying */
+  source?: KLVBuilderSource;
+  /** Hide sensitive values until their row is revealed */
+  mask?: boolean;
 }
 
-const KLVBuilder: React.FC<KLVBuilderProps> = ({ onBuild }) => {
-  const [entries, setEntries] = useState<KLVBuildEntry[]>([{ key: '002', value: '' }]);
+const parseRows = (klvString: string, dialect: KLVDialect, lengthUnit: KLVLengthUnit): KLVBuildEntry[] => (
+  KLVParser.parse(klvString, { dialect, lengthUnit }).results.map(({ key, value }) => ({ key, value }))
+);
+
+const parseSource = (source: KLVBuilderSource): KLVBuildEntry[] => (
+  parseRows(source.klv, KLVParser.dialects[source.dialectId], source.lengthUnit)
+);
+
+const sensitiveRows = (rows: KLVBuildEntry[]): number[] => (
+  rows.map((row, index) => (KLVParser.sensitivity[row.key] ? index : -1)).filter(index => index >= 0)
+);
+
+type ChangeType = 'added' | 'removed' | 'changed' | 'reordered';
+
+/**
+ * One line per difference, in the order the review lists them
+ */
+const describeChanges = (diff: KLVDiffResult, mask?: boolean): { type: ChangeType; text: string }[] => {
+  const field = (entry: KLVDiffEntry) => `${entry.key} ${entry.name}`;
+  const show = (entry: KLVDiffEntry, value = '') => {
+    const sensitivity = KLVParser.sensitivity[entry.key];
+    return mask && sensitivity ? KLVParser.maskValue(value, sensitivity) : value;
+  };
+  return [
+    ...diff.changed.map(entry => ({ type: 'changed' as const, text: `${field(entry)}: ${show(entry, entry.oldValue)} → ${show(entry, entry.newValue)}` })),
+    ...diff.added.map(entry => ({ type: 'added' as const, text: `+ ${field(entry)}: ${show(entry, entry.newValue)}` })),
+    ...diff.removed.map(entry => ({ type: 'removed' as const, text: `- ${field(entry)}: ${show(entry, entry.oldValue)}` })),
+    ...diff.reordered.map(entry => ({ type: 'reordered' as const, text: `${field(entry)} moved` }))
+  ];
+};
+
+const CHANGE_STYLES: Record<ChangeType, string> = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+  changed: 'bg-yellow-50 text-yellow-800',
+  reordered: 'bg-blue-50 text-blue-800'
+};
+
+const KLVBuilder: React.FC<KLVBuilderProps> = ({ onBuild, source, mask }) => {
+  const [entries, setEntries] = useState<KLVBuildEntry[]>(() => (
+    source ? parseSource(source) : [{ key: '002', value: '' }]
+  ));
+  // Rows are edited in place, so the original is parsed into its own copies
+  const [original, setOriginal] = useState<KLVBuildEntry[] | null>(() => (source ? parseSource(source) : null));
+  const [reviewing, setReviewing] = useState<boolean>(false);
+  const [dialectId, setDialectId] = useState<KLVDialectId>(source ? source.dialectId : 'standard');
+  const [lengthUnit, setLengthUnit] = useState<KLVLengthUnit>(source ? source.lengthUnit : 'utf16');
+  const [showPatch, setShowPatch] = useState<boolean>(false);
+  const [patchText, setPatchText] = useState<string>('');
+  const [patchErrors, setPatchErrors] = useState<string[]>([]);
+  // Loaded sensitive values stay hidden until revealed; values typed in the Builder are the user's own
+  const [maskedRows, setMaskedRows] = useState<Set<number>>(() => (
+    new Set(mask ? sensitiveRows(entries) : [])
+  ));
+  const dialect = KLVParser.dialects[dialectId];
+  // The key dropdown only makes sense for dialects that match the three-digit definitions
+  const useDefinedKeys = dialect.keyWidth === 3;
+  const { klv, errors, warnings } = KLVParser.build(entries, { dialect, lengthUnit });
+  const changes = original ? describeChanges(KLVParser.diffEntries(original, entries), mask) : [];
+  const preview = klv && mask && maskedRows.size > 0
+    ? KLVParser.maskInput(klv, KLVParser.parse(klv, { dialect, lengthUnit }).results, dialect)
+    : klv;
+
+  const isHidden = (index: number) => (
+    Boolean(mask && KLVParser.sensitivity[entries[index].key]) && maskedRows.has(index)
+  );
+
+  const toggleRevealed = (index: number) => {
+    const next = new Set(maskedRows);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setMaskedRows(next);
+  };
+
+  const getEnumeration = (key: string) => {
+    const schema = useDefinedKeys ? KLVParser.schemas[key] : undefined;
+    return schema && schema.enumeration;
+  };
 
   const addEntry = () => {
     setEntries([...entries, { key: '002', value: '' }]);
@@ -16,82 +112,214 @@ const KLVBuilder: React.FC<KLVBuilderProps> = ({ onBuild }) => {
   const updateEntry = (index: number, field: keyof KLVBuildEntry, value: string) => {
     const newEntries = [...entries];
     newEntries[index][field] = value;
+    // Drop a value the newly selected key's code set doesn't allow
+    const enumeration = field === 'key' ? getEnumeration(value) : undefined;
+    if (enumeration && !Object.prototype.hasOwnProperty.call(enumeration, newEntries[index].value)) {
+      newEntries[index].value = '';
+    }
     setEntries(newEntries);
   };
 
   const removeEntry = (index: number) => {
     if (entries.length > 1) {
       setEntries(entries.filter((_, i) => i !== index));
+      setMaskedRows(new Set(Array.from(maskedRows).filter(i => i !== index).map(i => (i > index ? i - 1 : i))));
     }
   };
 
+  const applyKLV = () => {
+    if (klv) {
+      onBuild(klv, dialectId, lengthUnit);
+    }
+  };
+
+  // A loaded message is only replaced once its changes have been reviewed
   const buildKLV = () => {
-    const klvString = KLVParser.build(entries);
-    if (klvString) {
-      onBuild(klvString);
+    if (original) {
+      setReviewing(true);
+    } else {
+      applyKLV();
+    }
+  };
+
+  // Patches apply to the message as built, so every row has to be valid first
+  const applyPatch = () => {
+    const { operations, errors: loadErrors } = KLVParser.loadPatch(patchText);
+    const patched = operations ? KLVParser.patch(klv, operations, { dialect, lengthUnit }) : null;
+    if (patched && patched.klv !== null) {
+      const rows = parseRows(patched.klv, dialect, lengthUnit);
+      setEntries(rows);
+      setMaskedRows(new Set(mask ? sensitiveRows(rows) : []));
+      setPatchErrors([]);
+    } else {
+      setPatchErrors(patched ? patched.errors : loadErrors);
     }
   };
 
   const clearAll = () => {
     setEntries([{ key: '002', value: '' }]);
+    setOriginal(null);
+    setReviewing(false);
+    setMaskedRows(new Set());
+  };
+
+  // Replace the entries with the profile's required keys, ready to fill in
+  const startFromProfile = (profileId: MessageProfileId) => {
+    setEntries(KLVParser.profiles[profileId].required.map(key => ({ key, value: '' })));
+    setMaskedRows(new Set());
   };
 
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="font-semibold">KLV Builder</h3>
-        <button
-          onClick={clearAll}
-          className="px-3 py-1 text-red-600 border border-red-300 rounded text-sm hover:bg-red-50"
-        >
-          Clear All
-        </button>
+        <div className="flex items-center gap-3">
+          <DialectSelector value={dialectId} onChange={setDialectId} />
+          <LengthUnitSelector value={lengthUnit} onChange={setLengthUnit} />
+          {useDefinedKeys && (
+            <select
+              value=""
+              onChange={(e) => startFromProfile(e.target.value as MessageProfileId)}
+              aria-label="Start from profile"
+              className="p-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="" disabled>Start from profile...</option>
+              {Object.entries(KLVParser.profiles).map(([id, profile]) => (
+                <option key={id} value={id}>{profile.name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={clearAll}
+            className="px-3 py-1 text-red-600 border border-red-300 rounded text-sm hover:bg-red-50"
+          >
+            Clear All
+          </button>
+        </div>
       </div>
       
+      {original && source && (
+        <div className="text-sm text-gray-500">Editing {source.label}</div>
+      )}
+
       <div className="space-y-3">
-        {entries.map((entry, index) => (
-          <div key={index} className="flex gap-2 items-center p-3 border rounded">
-            <div className="flex-shrink-0">
-              <label className="block text-xs text-gray-500 mb-1">Key</label>
-              <select
-                value={entry.key}
-                onChange={(e) => updateEntry(index, 'key', e.target.value)}
-                className="w-24 p-2 border rounded text-sm"
-              >
-                {Object.entries(KLVParser.definitions).map(([key, name]) => (
-                  <option key={key} value={key}>
-                    {key} - {name.slice(0, 20)}...
-                  </option>
-                ))}
-              </select>
-            </div>
-            
-            <div className="flex-1">
-              <label className="block text-xs text-gray-500 mb-1">
-                Value (Length: {entry.value.length})
-              </label>
-              <input
-                type="text"
-                value={entry.value}
-                onChange={(e) => updateEntry(index, 'value', e.target.value)}
-                placeholder="Enter value..."
-                className="w-full p-2 border rounded text-sm"
-              />
-            </div>
-            
-            <div className="flex-shrink-0">
-              <label className="block text-xs text-gray-500 mb-1">&nbsp;</label>
-              <button
-                onClick={() => removeEntry(index)}
-                disabled={entries.length === 1}
-                className="p-2 text-red-500 hover:bg-red-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
-                title="Remove entry"
-              >
-                <Trash2 size={16} />
-              </button>
+        {entries.map((entry, index) => {
+          const enumeration = getEnumeration(entry.key);
+          const entryErrors = errors.filter(error => error.index === index);
+          const entryWarnings = warnings.filter(warning => warning.index === index);
+          return (
+            <div key={index} className={`p-3 border rounded ${entryErrors.length > 0 ? 'border-red-300' : ''}`}>
+              <div className="flex gap-2 items-center">
+                <div className="flex-shrink-0">
+                  <label className="block text-xs text-gray-500 mb-1">Key</label>
+                  {useDefinedKeys ? (
+                    <select
+                      value={entry.key}
+                      onChange={(e) => updateEntry(index, 'key', e.target.value)}
+                      className="w-24 p-2 border rounded text-sm"
+                    >
+                      {/* Keys loaded from a message may not be defined */}
+                      {!Object.prototype.hasOwnProperty.call(KLVParser.definitions, entry.key) && (
+                        <option value={entry.key}>{entry.key} - Unknown</option>
+                      )}
+                      {Object.entries(KLVParser.definitions).map(([key, name]) => (
+                        <option key={key} value={key}>
+                          {key} - {name.slice(0, 20)}...
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={entry.key}
+                      onChange={(e) => updateEntry(index, 'key', e.target.value.replace(/\D/g, ''))}
+                      maxLength={dialect.keyWidth}
+                      placeholder={'0'.repeat(dialect.keyWidth)}
+                      aria-label="Key"
+                      className="w-24 p-2 border rounded text-sm font-mono"
+                    />
+                  )}
+                </div>
+              
+                <div className="flex-1">
+                  <label className="block text-xs text-gray-500 mb-1">
+                    Value (Length: {KLVParser.measureLength(entry.value, lengthUnit)})
+                  </label>
+                  {isHidden(index) ? (
+                    <input
+                      type="text"
+                      value={KLVParser.maskValue(entry.value, KLVParser.sensitivity[entry.key])}
+                      readOnly
+                      aria-label="Masked value"
+                      className="w-full p-2 border rounded text-sm bg-gray-50 text-gray-500"
+                    />
+                  ) : enumeration ? (
+                    <select
+                      value={entry.value}
+                      onChange={(e) => updateEntry(index, 'value', e.target.value)}
+                      aria-label="Value"
+                      className="w-full p-2 border rounded text-sm"
+                    >
+                      <option value="">Select value...</option>
+                      {/* Values loaded from a message may not be in the code set */}
+                      {entry.value && !Object.prototype.hasOwnProperty.call(enumeration, entry.value) && (
+                        <option value={entry.value}>{entry.value} - Unknown code</option>
+                      )}
+                      {Object.entries(enumeration).map(([code, meaning]) => (
+                        <option key={code} value={code}>
+                          {code} - {meaning}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={entry.value}
+                      onChange={(e) => updateEntry(index, 'value', e.target.value)}
+                      placeholder="Enter value..."
+                      className="w-full p-2 border rounded text-sm"
+                    />
+                  )}
+                </div>
+              
+                <div className="flex-shrink-0">
+                  <label className="block text-xs text-gray-500 mb-1">&nbsp;</label>
+                  {mask && KLVParser.sensitivity[entry.key] && (
+                    <button
+                      onClick={() => toggleRevealed(index)}
+                      className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                      title={isHidden(index) ? 'Reveal value' : 'Mask value'}
+                    >
+                      {isHidden(index) ? <Eye size={16} /> : <EyeOff size={16} />}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => removeEntry(index)}
+                    disabled={entries.length === 1}
+                    className="p-2 text-red-500 hover:bg-red-50 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Remove entry"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+              {entryErrors.length > 0 && (
+                <ul className="mt-2 text-xs text-red-600" aria-label={`Errors in entry ${index + 1}`}>
+                  {entryErrors.map((error, i) => (
+                    <li key={i}>{error.message}</li>
+                  ))}
+                </ul>
+              )}
+              {entryWarnings.length > 0 && (
+                <ul className="mt-2 text-xs text-yellow-700" aria-label={`Warnings in entry ${index + 1}`}>
+                  {entryWarnings.map((warning, i) => (
+                    <li key={i}>{warning.message}</li>
+                  ))}
+                </ul>
+              )}
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
       
       <div className="flex gap-2">
@@ -104,18 +332,83 @@ const KLVBuilder: React.FC<KLVBuilderProps> = ({ onBuild }) => {
         </button>
         <button
           onClick={buildKLV}
-          disabled={entries.every(e => !e.value)}
+          disabled={errors.length > 0}
           className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
         >
           Build KLV
         </button>
+        <button
+          onClick={() => setShowPatch(!showPatch)}
+          className="flex items-center gap-1 px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 text-sm"
+        >
+          <Braces size={16} />
+          Patch
+        </button>
       </div>
+
+      {showPatch && (
+        <div className="p-3 border border-gray-200 rounded space-y-2">
+          <textarea
+            value={patchText}
+            onChange={(e) => setPatchText(e.target.value)}
+            placeholder='[{ "op": "set", "key": "026", "value": "5812" }]'
+            aria-label="Patch operations"
+            className="w-full h-24 p-2 border border-gray-300 rounded font-mono text-sm"
+          />
+          <button
+            onClick={applyPatch}
+            disabled={!klv || !patchText.trim()}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            Apply patch
+          </button>
+          {patchErrors.length > 0 && (
+            <ul className="text-xs text-red-600" aria-label="Patch errors">
+              {patchErrors.map((error, i) => (
+                <li key={i}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {original && reviewing && (
+        <div className="p-3 border border-blue-200 rounded space-y-2">
+          <div className="text-sm font-medium">Changes from {source ? source.label : 'the original'}</div>
+          {changes.length === 0 ? (
+            <div className="text-sm text-gray-500">No changes</div>
+          ) : (
+            <ul className="space-y-1 font-mono text-sm" aria-label="Changes">
+              {changes.map((change, i) => (
+                <li key={i} className={`px-2 py-1 rounded ${CHANGE_STYLES[change.type]}`}>
+                  {change.text}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={applyKLV}
+              disabled={!klv}
+              className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              Apply
+            </button>
+            <button
+              onClick={() => setReviewing(false)}
+              className="px-4 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50"
+            >
+              Keep editing
+            </button>
+          </div>
+        </div>
+      )}
       
-      {entries.some(e => e.value) && (
+      {klv && (
         <div className="p-3 bg-gray-50 rounded">
           <label className="block text-sm font-medium mb-2">Preview:</label>
           <code className="text-sm break-all">
-            {KLVParser.build(entries)}
+            {preview}
           </code>
         </div>
       )}
@@ -0,0 +1,28 @@
+import React from 'react';
+import KLVParser, { KLVLengthUnit } from '../utils/KLVParser';
+
+interface LengthUnitSelectorProps {
+  value: KLVLengthUnit;
+  onChange: (unit: KLVLengthUnit) => void;
+}
+
+const LengthUnitSelector: React.FC<LengthUnitSelectorProps> = ({ value, onChange }) => {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      Length unit
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as KLVLengthUnit)}
+        className="p-1 border border-gray-300 rounded text-sm"
+      >
+        {Object.entries(KLVParser.lengthUnits).map(([id, name]) => (
+          <option key={id} value={id}>
+            {name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LengthUnitSelector;
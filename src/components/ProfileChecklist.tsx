@@ -0,0 +1,45 @@
+import React from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import KLVParser, { KLVProfileResult } from '../utils/KLVParser';
+
+interface ProfileChecklistProps {
+  result: KLVProfileResult;
+}
+
+const describeKey = (key: string) => `${key} ${KLVParser.getName(key)}`;
+
+const ProfileChecklist: React.FC<ProfileChecklistProps> = ({ result }) => {
+  const profile = KLVParser.profiles[result.profile];
+  const problems: { label: string; keys: string[] }[] = [
+    { label: 'Forbidden', keys: result.forbidden },
+    { label: 'Unexpected', keys: result.unexpected },
+    { label: 'Out of order', keys: result.outOfOrder }
+  ];
+
+  return (
+    <div className={`border-l-4 p-4 ${result.conforms ? 'bg-green-50 border-green-400' : 'bg-orange-50 border-orange-400'}`}>
+      <div className="font-medium mb-2 text-gray-800">
+        {profile.name} profile: {result.conforms ? 'conforms' : 'does not conform'}
+      </div>
+      <ul className="grid md:grid-cols-2 gap-1 text-sm" aria-label="Required keys">
+        {profile.required.map(key => {
+          const isMissing = result.missing.indexOf(key) >= 0;
+          return (
+            <li key={key} className={`flex items-center gap-2 ${isMissing ? 'text-red-700' : 'text-green-700'}`}>
+              {isMissing ? <XCircle size={14} /> : <CheckCircle size={14} />}
+              <span>{describeKey(key)}</span>
+              {isMissing && <span className="text-xs">(missing)</span>}
+            </li>
+          );
+        })}
+      </ul>
+      {problems.filter(problem => problem.keys.length > 0).map(problem => (
+        <div key={problem.label} className="mt-2 text-sm text-red-700">
+          <span className="font-medium">{problem.label}:</span> {problem.keys.map(describeKey).join(', ')}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProfileChecklist;
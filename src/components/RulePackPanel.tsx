@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import KLVRules, { KLVRulePack } from '../utils/KLVRules';
+
+export interface RulePackSetting {
+  /** 'default' for the built-in pack; loaded packs get their own namespace so a name can't clash with it */
+  id: string;
+  pack: KLVRulePack;
+  enabled: boolean;
+}
+
+interface RulePackPanelProps {
+  packs: RulePackSetting[];
+  onChange: (packs: RulePackSetting[]) => void;
+}
+
+const RulePackPanel: React.FC<RulePackPanelProps> = ({ packs, onChange }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const { pack, errors } = KLVRules.loadRulePack(await file.text());
+      if (pack) {
+        // A pack loaded again under the same name replaces the old one
+        const id = `loaded:${pack.name}`;
+        onChange([...packs.filter(p => p.id !== id), { id, pack, enabled: true }]);
+        setLoadErrors([]);
+      } else {
+        setLoadErrors(errors.map(error => `${file.name}: ${error}`));
+      }
+    } catch (error) {
+      console.error('Error reading rule pack:', error);
+      setLoadErrors([`${file.name}: The file could not be read`]);
+    }
+    e.target.value = '';
+  };
+
+  const toggle = (index: number) => {
+    onChange(packs.map((p, i) => (i === index ? { ...p, enabled: !p.enabled } : p)));
+  };
+
+  const remove = (index: number) => {
+    onChange(packs.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex items-center gap-3 flex-wrap text-sm text-gray-600">
+      <span>Rule packs</span>
+      {packs.map((p, i) => (
+        <span key={p.id} className="flex items-center gap-1 px-2 py-1 bg-gray-100 rounded">
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={p.enabled} onChange={() => toggle(i)} />
+            {p.pack.name} ({p.pack.rules.length})
+          </label>
+          {p.pack !== KLVRules.defaultRulePack && (
+            <button
+              onClick={() => remove(i)}
+              className="text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${p.pack.name}`}
+            >
+              <X size={12} />
+            </button>
+          )}
+        </span>
+      ))}
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json"
+        onChange={handleFileChange}
+        className="hidden"
+        aria-label="Load rule pack"
+      />
+      <button
+        onClick={() => fileRef.current?.click()}
+        className="flex items-center gap-1 px-2 py-1 border border-gray-300 rounded text-sm hover:bg-gray-50"
+      >
+        <Upload size={12} />
+        Load JSON
+      </button>
+      {loadErrors.length > 0 && (
+        <ul className="w-full text-red-600 text-xs list-disc list-inside">
+          {loadErrors.map((error, i) => (
+            <li key={i}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RulePackPanel;
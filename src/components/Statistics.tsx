@@ -1,8 +1,11 @@
 import React, { useMemo } from 'react';
-import { KLVEntry } from '../utils/KLVParser';
+import KLVParser, { KLVEntry } from '../utils/KLVParser';
+import { MCCGroup } from '../utils/mcc';
 
 interface StatisticsProps {
   results: KLVEntry[];
+  /** Called when an MCC group is clicked, to filter on it */
+  onSelectGroup?: (group: MCCGroup) => void;
 }
 
 interface StatsData {
@@ -11,19 +14,33 @@ interface StatsData {
   knownKeys: number;
   unknownKeys: number;
   keyTypes: Record<string, number>;
+  mccGroups: Partial<Record<MCCGroup, number>>;
+  /** PAN-bearing fields (and 253) whose checks passed or failed */
+  panChecks: { passed: number; failed: number };
+  /** Occurrences of each repeated key */
+  duplicates: Record<string, number>;
 }
 
-const Statistics: React.FC<StatisticsProps> = ({ results }) => {
+const Statistics: React.FC<StatisticsProps> = ({ results, onSelectGroup }) => {
   const stats: StatsData = useMemo(() => {
     const keyTypes: Record<string, number> = {};
+    const mccGroups: Partial<Record<MCCGroup, number>> = {};
     let totalValueLength = 0;
     let knownKeys = 0;
+    const panChecks = { passed: 0, failed: 0 };
 
     results.forEach(item => {
       const category = item.name !== 'Unknown' ? 'Known' : 'Unknown';
       keyTypes[category] = (keyTypes[category] || 0) + 1;
       totalValueLength += item.len;
       if (item.name !== 'Unknown') knownKeys++;
+      if (item.mccInfo) {
+        mccGroups[item.mccInfo.group] = (mccGroups[item.mccInfo.group] || 0) + 1;
+      }
+      const panPassed = item.panInfo ? KLVParser.panCheckPassed(item.panInfo) : item.lastFourMatch;
+      if (panPassed !== undefined) {
+        panChecks[panPassed ? 'passed' : 'failed']++;
+      }
     });
 
     return {
@@ -31,7 +48,10 @@ const Statistics: React.FC<StatisticsProps> = ({ results }) => {
       totalValueLength,
       knownKeys,
       unknownKeys: results.length - knownKeys,
-      keyTypes
+      keyTypes,
+      mccGroups,
+      panChecks,
+      duplicates: KLVParser.findDuplicates(results)
     };
   }, [results]);
 
@@ -57,6 +77,42 @@ const Statistics: React.FC<StatisticsProps> = ({ results }) => {
         <div className="text-2xl font-bold text-purple-600">{stats.totalValueLength}</div>
         <div className="text-xs text-gray-600">Total Length</div>
       </div>
+      {Object.keys(stats.duplicates).length > 0 && (
+        <div className="col-span-2 md:col-span-4 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-600">Duplicate keys:</span>
+          {Object.entries(stats.duplicates).map(([key, count]) => (
+            <span key={key} className="px-2 py-1 rounded bg-yellow-100 text-yellow-800">
+              {key} ×{count}
+            </span>
+          ))}
+        </div>
+      )}
+      {stats.panChecks.passed + stats.panChecks.failed > 0 && (
+        <div className="col-span-2 md:col-span-4 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-600">PAN checks:</span>
+          <span className="px-2 py-1 rounded bg-green-100 text-green-700">Passed: {stats.panChecks.passed}</span>
+          <span className={`px-2 py-1 rounded ${stats.panChecks.failed > 0 ? 'bg-red-100 text-red-700' : 'bg-gray-200 text-gray-700'}`}>
+            Failed: {stats.panChecks.failed}
+          </span>
+        </div>
+      )}
+      {Object.keys(stats.mccGroups).length > 0 && (
+        <div className="col-span-2 md:col-span-4 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-600">MCC groups:</span>
+          {(Object.entries(stats.mccGroups) as [MCCGroup, number][]).map(([group, count]) => (
+            <button
+              key={group}
+              onClick={() => onSelectGroup && onSelectGroup(group)}
+              disabled={!onSelectGroup}
+              className={`px-2 py-1 rounded ${
+                KLVParser.mccGroups[group].highRisk ? 'bg-red-100 text-red-700' : 'bg-gray-200 text-gray-700'
+              } ${onSelectGroup ? 'hover:underline' : 'cursor-default'}`}
+            >
+              {KLVParser.mccGroups[group].label}: {count}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { KLVEntry } from '../utils/KLVParser';
+
+interface SubfieldTreeProps {
+  entries: KLVEntry[];
+}
+
+const SubfieldNode: React.FC<{ entry: KLVEntry }> = ({ entry }) => {
+  const [expanded, setExpanded] = useState(false);
+  const hasChildren = !!entry.children && entry.children.length > 0;
+
+  return (
+    <li>
+      <div className="flex items-center gap-2 py-1 text-sm">
+        {hasChildren ? (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-gray-500 hover:text-gray-700"
+            aria-label={`${expanded ? 'Collapse' : 'Expand'} ${entry.name}`}
+          >
+            {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          </button>
+        ) : (
+          <span className="w-3.5" />
+        )}
+        <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs font-mono">{entry.key}</span>
+        <span className="text-gray-700">{entry.name}</span>
+        <span className="font-mono text-gray-900 break-all">
+          {entry.formattedValue || entry.value || <span className="text-gray-400 italic">Empty</span>}
+        </span>
+      </div>
+      {hasChildren && expanded && <SubfieldTree entries={entry.children!} />}
+    </li>
+  );
+};
+
+const SubfieldTree: React.FC<SubfieldTreeProps> = ({ entries }) => {
+  return (
+    <ul className="pl-4 border-l border-gray-200">
+      {entries.map((entry, i) => (
+        <SubfieldNode key={i} entry={entry} />
+      ))}
+    </ul>
+  );
+};
+
+export default SubfieldTree;
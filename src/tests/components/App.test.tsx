@@ -58,7 +58,7 @@ describe('App Integration Tests', () => {
       const user = userEvent.setup();
       render(<App />);
       
-      const builderTab = screen.getByRole('button', { name: /builder/i });
+      const builderTab = screen.getByRole('button', { name: 'Builder' });
       await user.click(builderTab);
       
       expect(builderTab).toHaveClass('border-blue-500', 'text-blue-600');
@@ -95,7 +95,7 @@ describe('App Integration Tests', () => {
       render(<App />);
       
       // Switch to builder
-      await user.click(screen.getByRole('button', { name: /builder/i }));
+      await user.click(screen.getByRole('button', { name: 'Builder' }));
       expect(screen.getByText('KLV Builder')).toBeInTheDocument();
       
       // Switch back to extractor
@@ -155,7 +155,564 @@ describe('App Integration Tests', () => {
     });
   });
 
+  describe('Source Positions', () => {
+    it('should select the entry in the input when its position is clicked', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/) as HTMLTextAreaElement;
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE 026044577');
+
+      await user.click(screen.getByText('Pos: 11'));
+
+      expect(textarea.selectionStart).toBe(12);
+      expect(textarea.selectionEnd).toBe(21);
+    });
+
+    it('should show the original line and column of parse errors', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE{enter}XYZ');
+
+      expect(screen.getByText('Line 2, Col 1')).toBeInTheDocument();
+    });
+  });
+
+  describe('Dialects', () => {
+    it('should parse the input with the selected dialect', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '0206AB48DE2604TEST');
+      await user.selectOptions(screen.getByLabelText('Dialect'), 'tag2');
+
+      expect(screen.getByText('Parsed KLV Data (2 entries)')).toBeInTheDocument();
+      expect(screen.getByText('Key 26')).toBeInTheDocument();
+    });
+
+    it('should adopt the Builder dialect when a KLV string is built', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.click(screen.getByRole('button', { name: 'Builder' }));
+      await user.selectOptions(screen.getByLabelText('Dialect'), 'hexLength');
+      await user.type(screen.getByPlaceholderText('Enter value...'), 'ABCDEFGHIJ');
+      await user.click(screen.getByText('Build KLV'));
+
+      expect(screen.getByPlaceholderText(/Enter KLV data/)).toHaveValue('0020AABCDEFGHIJ');
+      expect(screen.getByLabelText('Dialect')).toHaveValue('hexLength');
+      expect(screen.getByText('Parsed KLV Data (1 entries)')).toBeInTheDocument();
+    });
+  });
+
+  describe('Binary KLV', () => {
+    it('should parse hex input as binary KLV when the binary format is selected', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.click(screen.getByText('Binary Sample'));
+
+      expect(screen.getByLabelText('Format')).toHaveValue('binary');
+      expect(screen.getByText('Parsed KLV Data (1 entries)')).toBeInTheDocument();
+      expect(screen.getByText('Security Classification')).toBeInTheDocument();
+      expect(screen.queryByLabelText('Dialect')).not.toBeInTheDocument();
+    });
+
+    it('should decode the MISB ST 0601 sample', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.click(screen.getByText('MISB Sample'));
+
+      expect(screen.getByText('Parsed KLV Data (8 entries)')).toBeInTheDocument();
+      expect(screen.getByText('Sensor Latitude')).toBeInTheDocument();
+      expect(screen.getByText('60.176823°')).toBeInTheDocument();
+      expect(screen.getByText('MISSION01')).toBeInTheDocument();
+    });
+
+    it('should parse local-set tags with the selected key format', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '0201AA0301BB');
+      await user.selectOptions(screen.getByLabelText('Format'), 'binary');
+      await user.selectOptions(screen.getByLabelText('Key format'), 'local1');
+
+      expect(screen.getByText('Parsed KLV Data (2 entries)')).toBeInTheDocument();
+      expect(screen.getByText('Key 2')).toBeInTheDocument();
+      expect(screen.getByText('Key 3')).toBeInTheDocument();
+    });
+
+    it('should load uploaded binary files as hex in binary mode', async () => {
+      render(<App />);
+
+      const mockFile = new File([''], 'packet.klv');
+      (mockFile as any).arrayBuffer = jest.fn().mockResolvedValue(
+        new Uint8Array([0x06, 0x0e, 0x2b, 0x34, 0x01, 0x01, 0x01, 0x01, 0x0e, 0x01, 0x02, 0x03, 0x01, 0x01, 0x00, 0x00, 0x01, 0x01]).buffer
+      );
+      fireEvent.change(screen.getByLabelText('Upload KLV data file'), { target: { files: [mockFile] } });
+
+      await waitFor(() => {
+        expect(screen.getByPlaceholderText(/Enter KLV data/)).toHaveValue('06 0E 2B 34 01 01 01 01 0E 01 02 03 01 01 00 00 01 01');
+      });
+      expect(screen.getByLabelText('Format')).toHaveValue('binary');
+      expect(screen.getByText('Security Classification')).toBeInTheDocument();
+    });
+  });
+
+  describe('Error Recovery', () => {
+    it('should keep parsing after a corrupt entry when recovery is enabled', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DEXX12345026044577');
+
+      expect(screen.getByText('Parsed KLV Data (1 entries)')).toBeInTheDocument();
+
+      await user.click(screen.getByLabelText(/Recovery mode/));
+
+      expect(screen.getByText('Parsed KLV Data (2 entries)')).toBeInTheDocument();
+      expect(screen.getByText(/skipped positions 11-17, resumed at position 18/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Composite Fields', () => {
+    it('should expand and collapse the subfields of a composite entry', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '0481085001R07R1');
+
+      expect(screen.queryByText('Fraud Score')).not.toBeInTheDocument();
+
+      await user.click(screen.getByText('Subfields (3)'));
+      expect(screen.getByText('Fraud Score')).toBeInTheDocument();
+      expect(screen.getByText('R07R1')).toBeInTheDocument();
+
+      await user.click(screen.getByText('Subfields (3)'));
+      expect(screen.queryByText('Fraud Score')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Field Warnings', () => {
+    it('should list schema violations separately from parsing errors', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '004051O0AB');
+
+      expect(screen.getByText('Field Warnings')).toBeInTheDocument();
+      expect(screen.getByText('Field 004 (Original Transaction Amount) must be numeric')).toBeInTheDocument();
+      expect(screen.queryByText('Parsing Errors')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Expiry Dates', () => {
+    it('should check expiries against the as-of date', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '911042703');
+
+      expect(screen.getByText('2027-03')).toBeInTheDocument();
+
+      const asOf = screen.getByLabelText('Expiries as of');
+      await user.type(asOf, '2027-04-01');
+
+      expect(screen.getByText('Field 911 (Digitized PAN Expiry) expired 2027-03 (as of 2027-04-01)')).toBeInTheDocument();
+
+      await user.clear(asOf);
+      await user.type(asOf, '2027-03-15');
+      expect(screen.queryByText('Field Warnings')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Sensitive Field Masking', () => {
+    const input = '11016411111111111111104208MERCH001';
+
+    it('should mask sensitive values until revealed', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, input);
+
+      expect(screen.getByText('411111******1111')).toBeInTheDocument();
+      expect(screen.queryByText('4111111111111111')).not.toBeInTheDocument();
+      expect(screen.getByText('MERCH001')).toBeInTheDocument();
+
+      await user.click(screen.getByTitle('Reveal value'));
+      expect(screen.getByText('4111111111111111')).toBeInTheDocument();
+
+      await user.click(screen.getByTitle('Mask value'));
+      expect(screen.getByText('411111******1111')).toBeInTheDocument();
+    });
+
+    it('should mask the raw view', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, input);
+      await user.click(screen.getByText('Show Raw'));
+
+      expect(screen.getByText('11016411111******111104208MERCH001')).toBeInTheDocument();
+    });
+
+    it('should show values in clear when masking is turned off', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, input);
+      await user.click(screen.getByLabelText('Mask sensitive fields'));
+
+      expect(screen.getByText('4111111111111111')).toBeInTheDocument();
+      expect(screen.queryByTitle('Reveal value')).not.toBeInTheDocument();
+    });
+
+    it('should mask saved history entries', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, input);
+      await user.click(screen.getByText('Save to History'));
+      await user.click(screen.getByRole('button', { name: 'History' }));
+
+      expect(screen.getByText('11016411111******111104208MERCH001')).toBeInTheDocument();
+    });
+  });
+
+  describe('PCI-safe Mode', () => {
+    const input = '11016411111111111111104208MERCH001';
+
+    it('should show the audit banner while active', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      expect(screen.queryByText(/PCI-safe mode active/)).not.toBeInTheDocument();
+
+      await user.selectOptions(screen.getByLabelText('PCI-safe mode'), 'strip');
+
+      expect(screen.getByRole('status')).toHaveTextContent('PCI-safe mode active: card numbers and PIN data are stripped');
+      expect(screen.getByLabelText('Mask sensitive fields')).toBeDisabled();
+    });
+
+    it('should strip card numbers before saving to history', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.selectOptions(screen.getByLabelText('PCI-safe mode'), 'strip');
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, input);
+      await user.click(screen.getByText('Save to History'));
+      await user.click(screen.getByRole('button', { name: 'History' }));
+
+      expect(screen.getByText('04208MERCH001')).toBeInTheDocument();
+      expect(screen.getByText(/1 entries/)).toBeInTheDocument();
+    });
+
+    it('should redact uploaded files on load', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.selectOptions(screen.getByLabelText('PCI-safe mode'), 'strip');
+      File.prototype.text = jest.fn().mockResolvedValue(input);
+      fireEvent.change(screen.getByLabelText('Upload KLV data file'), {
+        target: { files: [new File([input], 'capture.txt', { type: 'text/plain' })] }
+      });
+
+      await waitFor(() => {
+        expect(screen.getByPlaceholderText(/Enter KLV data/)).toHaveValue('04208MERCH001');
+      });
+    });
+
+    it('should tokenise an uploaded file once', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.selectOptions(screen.getByLabelText('PCI-safe mode'), 'tokenise');
+      File.prototype.text = jest.fn().mockResolvedValue(input);
+      fireEvent.change(screen.getByLabelText('Upload KLV data file'), {
+        target: { files: [new File([input], 'capture.txt', { type: 'text/plain' })] }
+      });
+
+      await waitFor(() => {
+        expect(screen.getByPlaceholderText(/Enter KLV data/)).not.toHaveValue('00206AB48DE026044577');
+      });
+      const loaded = (screen.getByPlaceholderText(/Enter KLV data/) as HTMLTextAreaElement).value;
+      expect(loaded).toMatch(/^11016\d{12}111104208MERCH001$/);
+      await user.click(screen.getByText('Save to History'));
+
+      // Both the file's entry and the one saved from the Extractor hold the input as shown
+      for (const index of [0, 1]) {
+        await user.click(screen.getByRole('button', { name: 'History' }));
+        await user.click(screen.getAllByText('Load')[index]);
+        expect(screen.getByPlaceholderText(/Enter KLV data/)).toHaveValue(loaded);
+      }
+    });
+  });
+
+  describe('PAN Checks', () => {
+    it('should show PAN check badges', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '916164111111111111112253041112');
+
+      expect(screen.getByText('Visa')).toBeInTheDocument();
+      expect(screen.getByText('Luhn failed')).toBeInTheDocument();
+      expect(screen.getByText('Matches PAN')).toBeInTheDocument();
+      expect(screen.getByText('Failed: 1')).toBeInTheDocument();
+    });
+  });
+
+  describe('Rule Violations', () => {
+    it('should show cross-field rule violations separately from errors', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '30312000000001000');
+
+      expect(screen.getByText('Rule Violations')).toBeInTheDocument();
+      expect(screen.getByText('Field 303 (Cashback POS Amount) requires 302 (Cashback POS Currency Code)')).toBeInTheDocument();
+      expect(screen.queryByText('Parsing Errors')).not.toBeInTheDocument();
+
+      await user.click(screen.getByLabelText(/^Default/));
+      expect(screen.queryByText('Rule Violations')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Message Profiles', () => {
+    it('should show a checklist for the selected profile', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.selectOptions(screen.getByLabelText('Profile'), 'tokenisation');
+
+      expect(screen.getByText('Tokenisation Event profile: does not conform')).toBeInTheDocument();
+      expect(screen.getByText('913 Token Unique Reference')).toBeInTheDocument();
+      expect(screen.getAllByText('(missing)')).toHaveLength(2);
+      expect(screen.getByText('026 Merchant Category Code')).toBeInTheDocument();
+
+      await user.selectOptions(screen.getByLabelText('Profile'), '');
+      expect(screen.queryByText(/profile: /)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Compare Tab', () => {
+    it('should compare History entries', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE026045411');
+      await user.click(screen.getByText('Save to History'));
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE026045812');
+      await user.click(screen.getByText('Save to History'));
+      await user.click(screen.getByRole('button', { name: 'Compare' }));
+
+      const options = screen.getAllByRole('option', { name: /2 entries/ });
+      await user.selectOptions(screen.getByLabelText('Message A from History'), options[1].getAttribute('value') as string);
+      await user.selectOptions(screen.getByLabelText('Message B from History'), options[0].getAttribute('value') as string);
+
+      expect(screen.getByRole('status')).toHaveTextContent('1 changed, 0 added, 0 removed, 0 moved');
+    });
+  });
+
+  describe('Edit in Builder', () => {
+    it('should load the input into the Builder and apply the edits', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE026045411');
+      await user.click(screen.getByText('Edit in Builder'));
+
+      expect(screen.getByText('Editing Extractor input')).toBeInTheDocument();
+      const valueInputs = screen.getAllByPlaceholderText('Enter value...');
+      await user.clear(valueInputs[1]);
+      await user.type(valueInputs[1], '5812');
+      await user.click(screen.getByText('Build KLV'));
+      expect(screen.getByText('026 Merchant Category Code: 5411 → 5812')).toBeInTheDocument();
+
+      await user.click(screen.getByText('Apply'));
+      expect(screen.getByPlaceholderText(/Enter KLV data/)).toHaveValue('00206AB48DE026045812');
+    });
+
+    it('should keep sensitive values masked in the Builder', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE254165555555555554444');
+      await user.click(screen.getByText('Edit in Builder'));
+
+      expect(screen.getByLabelText('Masked value')).toHaveValue('555555******4444');
+      expect(screen.queryByDisplayValue('5555555555554444')).not.toBeInTheDocument();
+    });
+
+    it('should offer History entries to the Builder', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE026045411');
+      await user.click(screen.getByText('Save to History'));
+      await user.click(screen.getByRole('button', { name: 'History' }));
+      await user.click(screen.getByText('Edit in Builder'));
+
+      expect(screen.getByText(/^Editing 2 entries - /)).toBeInTheDocument();
+      expect(screen.getAllByPlaceholderText('Enter value...').map(input => (input as HTMLInputElement).value))
+        .toEqual(['AB48DE', '5411']);
+    });
+
+    it('should not offer input with parsing errors', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE0260');
+
+      expect(screen.queryByText('Edit in Builder')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Length Units', () => {
+    // 'กข' is two characters and six UTF-8 bytes
+    const input = '10806\u0e01\u0e02026045411';
+
+    it('should warn when another length unit frames the input differently', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, input);
+
+      expect(screen.getByText(/Lengths are counted in UTF-16 code units; this input would be framed differently in UTF-8 bytes/))
+        .toBeInTheDocument();
+      expect(screen.getByText('Parsing Errors')).toBeInTheDocument();
+
+      await user.selectOptions(screen.getByLabelText('Length unit'), 'utf8');
+
+      expect(screen.queryByText('Parsing Errors')).not.toBeInTheDocument();
+      expect(screen.getAllByText(/5411/).length).toBeGreaterThan(0);
+      expect(screen.getByText(/this input would be framed differently in UTF-16 code units, Code points, Latin-1 bytes/))
+        .toBeInTheDocument();
+    });
+
+    it('should not warn for ASCII input', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE026045411');
+
+      expect(screen.queryByText(/Lengths are counted in/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Duplicate Keys', () => {
+    const input = '00206AB48DE02604457700206CD12EF';
+
+    it('should flag repeated keys and show them in the object view', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, input);
+
+      expect(screen.getAllByText('Duplicate')).toHaveLength(1);
+      expect(screen.getByText('002 ×2')).toBeInTheDocument();
+
+      await user.click(screen.getByText('Show Object'));
+      expect(screen.getByText(/"002": "AB48DE"/)).toBeInTheDocument();
+
+      await user.selectOptions(screen.getByLabelText('Duplicate keys'), 'array');
+      expect(screen.getByText(/"CD12EF"/)).toBeInTheDocument();
+    });
+
+    it('should report repeated keys as errors in error mode', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, input);
+      await user.selectOptions(screen.getByLabelText('Duplicate keys'), 'error');
+      await user.click(screen.getByText('Show Object'));
+
+      expect(screen.getByText('Parsing Errors')).toBeInTheDocument();
+      expect(screen.getByText(/Duplicate key 002 at position 20/)).toBeInTheDocument();
+      expect(screen.getByText('Repeated keys 002 have no single value in error mode')).toBeInTheDocument();
+    });
+  });
+
+  describe('Conversion Rate', () => {
+    it('should show the conversion cross-check', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '01008612345670041200000005001004903840');
+
+      expect(screen.getByText('1.234567')).toBeInTheDocument();
+      expect(screen.getByText(/USD 500\.10 × 1\.234567 = 617\.41 \(cardholder currency\)/)).toBeInTheDocument();
+    });
+  });
+
   describe('Search and Filter Functionality', () => {
+    it('should filter by MCC group from the statistics', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const textarea = screen.getByPlaceholderText(/Enter KLV data/);
+      await user.clear(textarea);
+      await user.type(textarea, '00206AB48DE026047995');
+
+      await user.click(screen.getByText('Gambling: 1'));
+
+      expect(screen.getByPlaceholderText('Search keys, values, names...')).toHaveValue('Gambling');
+      expect(screen.getByText(/Betting, Casino Gaming/)).toBeInTheDocument();
+      expect(screen.queryByText('Tracking Number')).not.toBeInTheDocument();
+    });
+
     it('should filter results based on search term', async () => {
       const user = userEvent.setup();
       render(<App />);
@@ -405,7 +962,7 @@ describe('App Integration Tests', () => {
       render(<App />);
       
       // Go to builder tab
-      await user.click(screen.getByRole('button', { name: /builder/i }));
+      await user.click(screen.getByRole('button', { name: 'Builder' }));
       
       // Add a value and build KLV
       const valueInput = screen.getByPlaceholderText('Enter value...');
@@ -489,7 +1046,7 @@ describe('App Integration Tests', () => {
       await user.type(textarea, 'CUSTOM_DATA');
       
       // Switch tabs and come back
-      await user.click(screen.getByRole('button', { name: /builder/i }));
+      await user.click(screen.getByRole('button', { name: 'Builder' }));
       await user.click(screen.getByRole('button', { name: /extractor/i }));
       
       const updatedTextarea = screen.getByPlaceholderText(/Enter KLV data/);
@@ -230,6 +230,66 @@ describe('BatchProcessor', () => {
       });
     });
 
+    it('should summarise failures by error code', async () => {
+      jest.useFakeTimers();
+      const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+      render(<BatchProcessor onProcess={mockOnProcess} />);
+      
+      const textarea = screen.getByPlaceholderText(/Enter multiple KLV strings/);
+      await user.type(textarea, 'XYZ0612345\nABC0612345\n00210123');
+      
+      await user.click(screen.getByText('Process Batch'));
+      jest.advanceTimersByTime(500);
+      
+      await waitFor(() => {
+        expect(screen.getByText('INVALID_KEY: 2')).toBeInTheDocument();
+      });
+      expect(screen.getByText('TRUNCATED_VALUE: 1')).toBeInTheDocument();
+      expect(screen.getByText('Errors: Incomplete value at position 5')).toBeInTheDocument();
+    });
+
+    it('should recover entries after a corrupt field when recovery mode is on', async () => {
+      jest.useFakeTimers();
+      const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+      render(<BatchProcessor onProcess={mockOnProcess} />);
+      
+      const textarea = screen.getByPlaceholderText(/Enter multiple KLV strings/);
+      await user.type(textarea, '00206AB48DEXX12345026044577');
+      await user.click(screen.getByLabelText(/Recovery mode/));
+      
+      await user.click(screen.getByText('Process Batch'));
+      jest.advanceTimersByTime(500);
+      
+      await waitFor(() => {
+        expect(screen.getByText('Keys found: 002, 026')).toBeInTheDocument();
+      });
+    });
+
+    it('should filter lines by MCC risk and group', async () => {
+      jest.useFakeTimers();
+      const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+      render(<BatchProcessor onProcess={mockOnProcess} />);
+
+      const textarea = screen.getByPlaceholderText(/Enter multiple KLV strings/);
+      await user.type(textarea, '026045411\n026047995\n026046051');
+      await user.click(screen.getByText('Process Batch'));
+      jest.advanceTimersByTime(500);
+
+      await waitFor(() => {
+        expect(screen.getByText('Batch Results')).toBeInTheDocument();
+      });
+
+      await user.selectOptions(screen.getByLabelText('MCC filter'), 'high-risk');
+      expect(screen.queryByText('Line 1')).not.toBeInTheDocument();
+      expect(screen.getByText('Line 2')).toBeInTheDocument();
+      expect(screen.getByText('Line 3')).toBeInTheDocument();
+
+      // Clicking a group in the statistics narrows to that group
+      await user.click(screen.getByText('Gambling: 1'));
+      expect(screen.getByLabelText('MCC filter')).toHaveValue('gambling');
+      expect(screen.queryByText('Line 3')).not.toBeInTheDocument();
+    });
+
     it('should handle mixed valid and invalid KLV strings', async () => {
       jest.useFakeTimers();
       const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
@@ -305,6 +365,22 @@ describe('BatchProcessor', () => {
       });
     });
 
+    it('should mask sensitive values in the input when asked', async () => {
+      jest.useFakeTimers();
+      const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+      render(<BatchProcessor onProcess={mockOnProcess} mask />);
+      
+      const textarea = screen.getByPlaceholderText(/Enter multiple KLV strings/);
+      await user.type(textarea, '110164111111111111111026045411');
+      
+      await user.click(screen.getByText('Process Batch'));
+      jest.advanceTimersByTime(500);
+      
+      await waitFor(() => {
+        expect(screen.getByText('11016411111******1111026045411')).toBeInTheDocument();
+      });
+    });
+
     it('should handle results with scrollable area when many entries', async () => {
       jest.useFakeTimers();
       const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
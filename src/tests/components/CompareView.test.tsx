@@ -0,0 +1,130 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CompareView, { CompareSource } from '../../components/CompareView';
+
+const history: CompareSource[] = [
+  { id: 1, label: 'Authorisation', klv: '00206AB48DE02604541104106TERM01', dialectId: 'standard', lengthUnit: 'utf16' },
+  { id: 2, label: 'Clearing', klv: '00206AB48DE02604581204209MERCHANT1', dialectId: 'standard', lengthUnit: 'utf16' },
+  { id: 3, label: 'Long lengths', klv: '002006AB48DE', dialectId: 'lll', lengthUnit: 'utf16' }
+];
+
+const enter = async (user: ReturnType<typeof userEvent.setup>, side: 'A' | 'B', klv: string) => {
+  await user.click(screen.getByLabelText(`Message ${side}`));
+  await user.paste(klv);
+};
+
+describe('CompareView', () => {
+  it('should not summarise until both messages have entries', async () => {
+    const user = userEvent.setup();
+    render(<CompareView history={[]} />);
+
+    await enter(user, 'A', '00206AB48DE');
+
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Message A from History')).not.toBeInTheDocument();
+  });
+
+  it('should colour-code the differences on each side', async () => {
+    const user = userEvent.setup();
+    render(<CompareView history={[]} />);
+
+    await enter(user, 'A', history[0].klv);
+    await enter(user, 'B', history[1].klv);
+
+    expect(screen.getByRole('status')).toHaveTextContent('1 changed, 1 added, 1 removed, 0 moved');
+
+    const left = within(screen.getByRole('list', { name: 'Message A entries' })).getAllByRole('listitem');
+    expect(left.map(item => item.textContent)).toEqual([
+      '002Tracking NumberAB48DE',
+      '026Merchant Category Code5411changed',
+      '041Terminal IDTERM01removed'
+    ]);
+    expect(left[1]).toHaveClass('bg-yellow-50');
+    expect(left[2]).toHaveClass('bg-red-50');
+
+    const right = within(screen.getByRole('list', { name: 'Message B entries' })).getAllByRole('listitem');
+    expect(right[2]).toHaveTextContent('added');
+    expect(right[2]).toHaveClass('bg-green-50');
+  });
+
+  it('should mark keys that moved', async () => {
+    const user = userEvent.setup();
+    render(<CompareView history={[]} />);
+
+    await enter(user, 'A', '00206AB48DE026045411');
+    await enter(user, 'B', '02604541100206AB48DE');
+
+    expect(screen.getByRole('status')).toHaveTextContent('0 changed, 0 added, 0 removed, 1 moved');
+    // In a swap the first key keeps its place
+    const right = within(screen.getByRole('list', { name: 'Message B entries' })).getAllByRole('listitem');
+    expect(right[0]).toHaveTextContent('026Merchant Category Code5411moved');
+    expect(right[1]).not.toHaveTextContent('moved');
+  });
+
+  it('should report identical messages', async () => {
+    const user = userEvent.setup();
+    render(<CompareView history={[]} />);
+
+    await enter(user, 'A', '00206AB48DE');
+    await enter(user, 'B', '00206AB48DE');
+
+    expect(screen.getByRole('status')).toHaveTextContent('The messages are identical');
+  });
+
+  it('should not call messages identical when one has parsing errors', async () => {
+    const user = userEvent.setup();
+    render(<CompareView history={[]} />);
+
+    await enter(user, 'A', '00206AB48DE02604541');
+    await enter(user, 'B', '00206AB48DE');
+
+    expect(screen.getByRole('status')).toHaveTextContent('0 changed, 0 added, 0 removed, 0 moved, 1 parsing error');
+  });
+
+  it('should load either side from History with its framing', async () => {
+    const user = userEvent.setup();
+    render(<CompareView history={history} />);
+
+    await user.selectOptions(screen.getByLabelText('Message A from History'), '1');
+    await user.selectOptions(screen.getByLabelText('Message B from History'), '2');
+
+    expect(screen.getByLabelText('Message A')).toHaveValue(history[0].klv);
+    expect(screen.getByLabelText('Message B')).toHaveValue(history[1].klv);
+    expect(screen.getByRole('status')).toHaveTextContent('1 changed');
+
+    await user.selectOptions(screen.getByLabelText('Message B from History'), '3');
+    expect(screen.getByLabelText('Dialect')).toHaveValue('lll');
+  });
+
+  it('should show parsing errors', async () => {
+    const user = userEvent.setup();
+    render(<CompareView history={[]} />);
+
+    await enter(user, 'A', '00206AB');
+
+    expect(screen.getByText('1 parsing error: Incomplete value at position 5')).toBeInTheDocument();
+  });
+
+  it('should mask sensitive values when asked', async () => {
+    const user = userEvent.setup();
+    render(<CompareView history={[]} mask />);
+
+    await enter(user, 'A', '110164111111111111111026045411');
+
+    expect(screen.getByText('411111******1111')).toBeInTheDocument();
+    expect(screen.queryByText('4111111111111111')).not.toBeInTheDocument();
+  });
+
+  it('should load the masked message from History when masking', async () => {
+    const user = userEvent.setup();
+    render(<CompareView
+      history={[{ id: 4, label: 'Card', klv: '110164111111111111111026045411', dialectId: 'standard', lengthUnit: 'utf16' }]}
+      mask
+    />);
+
+    await user.selectOptions(screen.getByLabelText('Message A from History'), '4');
+
+    expect(screen.getByLabelText('Message A')).toHaveValue('11016411111******1111026045411');
+  });
+});
@@ -2,7 +2,7 @@ import React from 'react';
 import { render, screen, cleanup } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import ExportPanel from '../../components/ExportPanel';
-import { KLVEntry } from '../../utils/KLVParser';
+import KLVParser, { KLVEntry } from '../../utils/KLVParser';
 import { mockURLAPIs, mockDOMFileDownload } from '../helpers/testUtils';
 
 // Mock Blob constructor
@@ -145,6 +145,59 @@ describe('ExportPanel', () => {
       expect(domMocks.mocks.mockClick).toHaveBeenCalled();
     });
 
+    it('should re-frame results in the given dialect when KLV button is clicked', async () => {
+      const user = userEvent.setup();
+      render(<ExportPanel results={mockResults} dialect={KLVParser.dialects.lll} />);
+      
+      domMocks = mockDOMFileDownload();
+      urlMocks = mockURLAPIs();
+      
+      await user.click(screen.getByText('KLV'));
+      
+      expect(global.Blob).toHaveBeenCalledWith(
+        ['002006AB48DE0260044577'],
+        { type: 'text/plain' }
+      );
+      expect(domMocks.mocks.mockElement.download).toMatch(/\.klv$/);
+    });
+
+    it('should alert instead of exporting entries that do not fit the dialect', async () => {
+      const user = userEvent.setup();
+      const alertSpy = jest.spyOn(window, 'alert').mockImplementation(() => {});
+      const longResults: KLVEntry[] = [
+        { key: '043', len: 100, value: 'A'.repeat(100), pos: 0, name: 'Merchant Description' }
+      ];
+      render(<ExportPanel results={longResults} dialect={KLVParser.dialects.standard} />);
+      
+      await user.click(screen.getByText('KLV'));
+      
+      expect(alertSpy).toHaveBeenCalledWith(
+        'Cannot export as KLV: Value of 043 is 100 characters; a 2-character length field holds at most 99'
+      );
+      expect(global.Blob).not.toHaveBeenCalled();
+      alertSpy.mockRestore();
+    });
+
+    it('should mask sensitive values when asked', async () => {
+      const user = userEvent.setup();
+      const { results } = KLVParser.parse('11016411111111111111104208MERCH001');
+      render(<ExportPanel results={results} mask />);
+
+      domMocks = mockDOMFileDownload();
+      urlMocks = mockURLAPIs();
+
+      await user.click(screen.getByText('CSV'));
+
+      expect(global.Blob).toHaveBeenCalledWith(
+        [expect.stringContaining('"411111******1111"')],
+        { type: 'text/csv' }
+      );
+      expect(global.Blob).not.toHaveBeenCalledWith(
+        [expect.stringContaining('4111111111111111')],
+        expect.anything()
+      );
+    });
+
     it('should generate filename with timestamp for JSON export', async () => {
       const user = userEvent.setup();
       render(<ExportPanel results={mockResults} />);
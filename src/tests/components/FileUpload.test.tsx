@@ -112,6 +112,49 @@ describe('FileUpload', () => {
     alertSpy.mockRestore();
   });
 
+  describe('Binary files', () => {
+    const mockOnBinaryLoad = jest.fn();
+
+    beforeEach(() => {
+      mockOnBinaryLoad.mockClear();
+    });
+
+    it('should accept binary extensions when onBinaryLoad is provided', () => {
+      render(<FileUpload onFileLoad={mockOnFileLoad} onBinaryLoad={mockOnBinaryLoad} />);
+      
+      expect(screen.getByLabelText('Upload KLV data file')).toHaveAttribute('accept', '.txt,.log,.csv,.json,.bin,.klv');
+      expect(screen.getByText('Upload KLV data file (.txt, .log, .csv, .bin, .klv)')).toBeInTheDocument();
+    });
+
+    it('should read .bin files as bytes and call onBinaryLoad', async () => {
+      render(<FileUpload onFileLoad={mockOnFileLoad} onBinaryLoad={mockOnBinaryLoad} />);
+      
+      const mockFile = new File([''], 'capture.BIN');
+      (mockFile as any).arrayBuffer = jest.fn().mockResolvedValue(new Uint8Array([0x06, 0x0e]).buffer);
+      
+      fireEvent.change(screen.getByLabelText('Upload KLV data file'), { target: { files: [mockFile] } });
+      
+      await waitFor(() => {
+        expect(mockOnBinaryLoad).toHaveBeenCalledWith(new Uint8Array([0x06, 0x0e]), 'capture.BIN');
+      });
+      expect(mockOnFileLoad).not.toHaveBeenCalled();
+    });
+
+    it('should still read text files as text', async () => {
+      render(<FileUpload onFileLoad={mockOnFileLoad} onBinaryLoad={mockOnBinaryLoad} />);
+      
+      File.prototype.text = jest.fn().mockResolvedValue(mockFileContent);
+      const mockFile = new File([mockFileContent], mockFileName, { type: 'text/plain' });
+      
+      fireEvent.change(screen.getByLabelText('Upload KLV data file'), { target: { files: [mockFile] } });
+      
+      await waitFor(() => {
+        expect(mockOnFileLoad).toHaveBeenCalledWith(mockFileContent, mockFileName);
+      });
+      expect(mockOnBinaryLoad).not.toHaveBeenCalled();
+    });
+  });
+
   it('should not process when no file is selected', async () => {
     render(<FileUpload onFileLoad={mockOnFileLoad} />);
     
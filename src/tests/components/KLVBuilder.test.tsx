@@ -220,7 +220,7 @@ describe('KLVBuilder', () => {
       const buildButton = screen.getByText('Build KLV');
       await user.click(buildButton);
       
-      expect(mockOnBuild).toHaveBeenCalledWith('00204TEST');
+      expect(mockOnBuild).toHaveBeenCalledWith('00204TEST', 'standard', 'utf16');
     });
 
     it('should not call onBuild when KLV string is empty', async () => {
@@ -244,7 +244,7 @@ describe('KLVBuilder', () => {
       // Set values for both entries
       const valueInputs = screen.getAllByPlaceholderText('Enter value...');
       await user.type(valueInputs[0], 'ABC');
-      await user.type(valueInputs[1], 'XYZ');
+      await user.type(valueInputs[1], '5411');
       
       // Change second entry key
       const keySelects = screen.getAllByDisplayValue('002 - Tracking Number...');
@@ -253,7 +253,37 @@ describe('KLVBuilder', () => {
       const buildButton = screen.getByText('Build KLV');
       await user.click(buildButton);
       
-      expect(mockOnBuild).toHaveBeenCalledWith('00203ABC02603XYZ');
+      expect(mockOnBuild).toHaveBeenCalledWith('00203ABC026045411', 'standard', 'utf16');
+    });
+
+    it('should show entry errors inline and disable Build KLV', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} />);
+      
+      await user.selectOptions(screen.getByDisplayValue('002 - Tracking Number...'), '026');
+      await user.type(screen.getByPlaceholderText('Enter value...'), 'ABCD');
+      
+      expect(screen.getByRole('list', { name: 'Errors in entry 1' })).toHaveTextContent('Field 026 (Merchant Category Code) must be numeric');
+      expect(screen.getByText('Build KLV')).toBeDisabled();
+      expect(screen.queryByText('Preview:')).not.toBeInTheDocument();
+      
+      await user.clear(screen.getByPlaceholderText('Enter value...'));
+      await user.type(screen.getByPlaceholderText('Enter value...'), '5411');
+      
+      expect(screen.queryByRole('list', { name: 'Errors in entry 1' })).not.toBeInTheDocument();
+      expect(screen.getByText('Build KLV')).not.toBeDisabled();
+    });
+
+    it('should reject a value that overflows the length field', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} />);
+      
+      await user.selectOptions(screen.getByDisplayValue('002 - Tracking Number...'), '043');
+      await user.click(screen.getByPlaceholderText('Enter value...'));
+      await user.paste('A'.repeat(100));
+      
+      expect(screen.getByText('Value of 043 is 100 characters; a 2-character length field holds at most 99')).toBeInTheDocument();
+      expect(screen.getByText('Build KLV')).toBeDisabled();
     });
   });
 
@@ -299,6 +329,102 @@ describe('KLVBuilder', () => {
     });
   });
 
+  describe('Dialects', () => {
+    it('should build with the selected dialect and report it to onBuild', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} />);
+      
+      await user.selectOptions(screen.getByLabelText('Dialect'), 'lll');
+      await user.type(screen.getByPlaceholderText('Enter value...'), 'TEST');
+      
+      expect(screen.getByText('002004TEST')).toBeInTheDocument();
+      
+      await user.click(screen.getByText('Build KLV'));
+      expect(mockOnBuild).toHaveBeenCalledWith('002004TEST', 'lll', 'utf16');
+    });
+
+    it('should switch to a free-text key for dialects without defined keys', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} />);
+      
+      await user.selectOptions(screen.getByLabelText('Dialect'), 'tag2');
+      
+      const keyInput = screen.getByRole('textbox', { name: 'Key' });
+      await user.clear(keyInput);
+      await user.type(keyInput, '7x1');
+      await user.type(screen.getByPlaceholderText('Enter value...'), 'AB');
+      
+      expect(keyInput).toHaveValue('71');
+      expect(screen.getByText('7102AB')).toBeInTheDocument();
+    });
+  });
+
+  describe('Length Units', () => {
+    it('should count and frame the value in the selected unit', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} />);
+      
+      await user.selectOptions(screen.getByDisplayValue('002 - Tracking Number...'), '108');
+      await user.type(screen.getByPlaceholderText('Enter value...'), 'Caf\u00e9');
+      expect(screen.getByText('Value (Length: 4)')).toBeInTheDocument();
+      
+      await user.selectOptions(screen.getByLabelText('Length unit'), 'utf8');
+      expect(screen.getByText('Value (Length: 5)')).toBeInTheDocument();
+      expect(screen.getByText('10805Caf\u00e9')).toBeInTheDocument();
+      
+      await user.click(screen.getByText('Build KLV'));
+      expect(mockOnBuild).toHaveBeenCalledWith('10805Caf\u00e9', 'standard', 'utf8');
+    });
+  });
+
+  describe('Enumerated Values', () => {
+    it('should offer a dropdown of codes for enumerated keys', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} />);
+
+      await user.selectOptions(screen.getByDisplayValue('002 - Tracking Number...'), '251');
+      expect(screen.queryByPlaceholderText('Enter value...')).not.toBeInTheDocument();
+
+      await user.selectOptions(screen.getByLabelText('Value'), 'Mastercard');
+      expect(screen.getByText('25110Mastercard')).toBeInTheDocument();
+    });
+
+    it('should keep a loaded value outside the code set', () => {
+      render(<KLVBuilder onBuild={mockOnBuild} source={{ label: 'Captured', klv: '25106Diners', dialectId: 'standard', lengthUnit: 'utf16' }} />);
+
+      expect(screen.getByLabelText('Value')).toHaveValue('Diners');
+      expect(screen.getByRole('option', { name: 'Diners - Unknown code' })).toBeInTheDocument();
+      expect(screen.getByRole('list', { name: 'Errors in entry 1' })).toHaveTextContent("has unknown code 'Diners'");
+    });
+
+    it('should clear a value the new key does not allow', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} />);
+
+      await user.type(screen.getByPlaceholderText('Enter value...'), 'ABC');
+      await user.selectOptions(screen.getByDisplayValue('002 - Tracking Number...'), '068');
+
+      expect(screen.getByLabelText('Value')).toHaveValue('');
+      expect(screen.getByText('Value (Length: 0)')).toBeInTheDocument();
+    });
+  });
+
+  describe('Profiles', () => {
+    it('should start from the skeleton of a message profile', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} />);
+
+      await user.type(screen.getByPlaceholderText('Enter value...'), 'ABC');
+      await user.selectOptions(screen.getByLabelText('Start from profile'), 'cashback');
+
+      expect(screen.getAllByPlaceholderText('Enter value...')).toHaveLength(6);
+      expect(screen.getAllByPlaceholderText('Enter value...')[0]).toHaveValue('');
+      expect(screen.getByDisplayValue('302 - Cashback POS Currenc...')).toBeInTheDocument();
+      expect(screen.getByDisplayValue('303 - Cashback POS Amount...')).toBeInTheDocument();
+      expect(screen.getByLabelText('Start from profile')).toHaveValue('');
+    });
+  });
+
   describe('Key Selection', () => {
     it('should show all available KLV definitions in key select', () => {
       render(<KLVBuilder onBuild={mockOnBuild} />);
@@ -376,6 +502,7 @@ describe('KLVBuilder', () => {
       render(<KLVBuilder onBuild={mockOnBuild} />);
       
       const longValue = 'A'.repeat(50);
+      await user.selectOptions(screen.getByDisplayValue('002 - Tracking Number...'), '043');
       const valueInput = screen.getByPlaceholderText('Enter value...');
       await user.type(valueInput, longValue);
       
@@ -408,4 +535,135 @@ describe('KLVBuilder', () => {
       expect(screen.getByDisplayValue('999 - Generic Key...')).toBeInTheDocument();
     });
   });
-});
\ No newline at end of file
+
+  describe('Editing a Message', () => {
+    const source = {
+      label: 'Captured',
+      klv: '00206AB48DE77703XYZ026045411',
+      dialectId: 'standard' as const,
+      lengthUnit: 'utf16' as const
+    };
+
+    it('should load the rows in order and keep unknown keys', () => {
+      render(<KLVBuilder onBuild={mockOnBuild} source={source} />);
+      
+      expect(screen.getByText('Editing Captured')).toBeInTheDocument();
+      expect(screen.getAllByPlaceholderText('Enter value...').map(input => (input as HTMLInputElement).value))
+        .toEqual(['AB48DE', 'XYZ', '5411']);
+      expect(screen.getByDisplayValue('777 - Unknown')).toBeInTheDocument();
+      expect(screen.getByText('00206AB48DE77703XYZ026045411')).toBeInTheDocument();
+    });
+
+    it('should show the changes before applying them', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} source={source} />);
+      
+      const valueInputs = screen.getAllByPlaceholderText('Enter value...');
+      await user.clear(valueInputs[2]);
+      await user.type(valueInputs[2], '5812');
+      await user.click(screen.getAllByTitle('Remove entry')[1]);
+      await user.click(screen.getByText('Add Entry'));
+      await user.type(screen.getAllByPlaceholderText('Enter value...')[2], 'NEW');
+      await user.click(screen.getByText('Build KLV'));
+      
+      expect(mockOnBuild).not.toHaveBeenCalled();
+      expect(screen.getByText('Changes from Captured')).toBeInTheDocument();
+      expect(screen.getAllByRole('listitem').map(item => item.textContent)).toEqual([
+        '026 Merchant Category Code: 5411 → 5812',
+        '+ 002 Tracking Number: NEW',
+        '- 777 Unknown: XYZ'
+      ]);
+      
+      await user.click(screen.getByText('Apply'));
+      expect(mockOnBuild).toHaveBeenCalledWith('00206AB48DE02604581200203NEW', 'standard', 'utf16');
+    });
+
+    it('should report when nothing changed', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} source={source} />);
+      
+      await user.click(screen.getByText('Build KLV'));
+      expect(screen.getByText('No changes')).toBeInTheDocument();
+      
+      await user.click(screen.getByText('Keep editing'));
+      expect(screen.queryByText('Changes from Captured')).not.toBeInTheDocument();
+    });
+
+    it('should frame the rows with the source dialect', () => {
+      render(<KLVBuilder onBuild={mockOnBuild} source={{ ...source, klv: '002006AB48DE', dialectId: 'lll' }} />);
+      
+      expect(screen.getByLabelText('Dialect')).toHaveValue('lll');
+      expect(screen.getByPlaceholderText('Enter value...')).toHaveValue('AB48DE');
+    });
+
+    it('should rebuild an old message with expired dates', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} source={{ ...source, klv: '00206AB48DE911042001' }} />);
+      
+      expect(screen.getByRole('list', { name: 'Warnings in entry 2' })).toHaveTextContent('Field 911 (Digitized PAN Expiry) expired 2020-01');
+      expect(screen.getByText('Build KLV')).not.toBeDisabled();
+      
+      await user.click(screen.getByText('Build KLV'));
+      await user.click(screen.getByText('Apply'));
+      expect(mockOnBuild).toHaveBeenCalledWith('00206AB48DE911042001', 'standard', 'utf16');
+    });
+
+    it('should hide loaded sensitive values until revealed', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} source={{ ...source, klv: '00206AB48DE254165555555555554444' }} mask />);
+      
+      expect(screen.getByLabelText('Masked value')).toHaveValue('555555******4444');
+      expect(screen.queryByDisplayValue('5555555555554444')).not.toBeInTheDocument();
+      expect(screen.getByText('00206AB48DE25416555555******4444')).toBeInTheDocument();
+      
+      await user.click(screen.getByText('Build KLV'));
+      expect(screen.getByText('No changes')).toBeInTheDocument();
+      
+      await user.click(screen.getByTitle('Reveal value'));
+      expect(screen.getByDisplayValue('5555555555554444')).toBeInTheDocument();
+      expect(screen.queryByLabelText('Masked value')).not.toBeInTheDocument();
+    });
+
+    it('should mask sensitive values in the changes', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} source={{ ...source, klv: '00206AB48DE254165555555555554444' }} mask />);
+      
+      await user.click(screen.getAllByTitle('Remove entry')[1]);
+      await user.click(screen.getByText('Build KLV'));
+      
+      expect(screen.getByText('- 254 MDES Digitized PAN: 555555******4444')).toBeInTheDocument();
+    });
+
+    it('should apply saved patch operations to the rows', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} source={source} />);
+      
+      await user.click(screen.getByText('Patch'));
+      await user.click(screen.getByLabelText('Patch operations'));
+      await user.paste('[{"op": "remove", "key": "777"}, {"op": "set", "key": "026", "value": "5812"}]');
+      await user.click(screen.getByText('Apply patch'));
+      
+      expect(screen.getAllByPlaceholderText('Enter value...').map(input => (input as HTMLInputElement).value))
+        .toEqual(['AB48DE', '5812']);
+      expect(screen.getByText('00206AB48DE026045812')).toBeInTheDocument();
+      
+      await user.click(screen.getByText('Build KLV'));
+      expect(screen.getByText('026 Merchant Category Code: 5411 → 5812')).toBeInTheDocument();
+      expect(screen.getByText('- 777 Unknown: XYZ')).toBeInTheDocument();
+    });
+
+    it('should show why a patch cannot be applied', async () => {
+      const user = userEvent.setup();
+      render(<KLVBuilder onBuild={mockOnBuild} source={source} />);
+      
+      await user.click(screen.getByText('Patch'));
+      await user.click(screen.getByLabelText('Patch operations'));
+      await user.paste('[{"op": "remove", "key": "042"}]');
+      await user.click(screen.getByText('Apply patch'));
+      
+      expect(within(screen.getByRole('list', { name: 'Patch errors' })).getByText('Operation 1 (remove 042): key 042 is not in the message'))
+        .toBeInTheDocument();
+      expect(screen.getAllByPlaceholderText('Enter value...')).toHaveLength(3);
+    });
+  });
+});
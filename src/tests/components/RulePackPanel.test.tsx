@@ -0,0 +1,103 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RulePackPanel, { RulePackSetting } from '../../components/RulePackPanel';
+import KLVRules from '../../utils/KLVRules';
+
+const customPack = {
+  name: 'Acquirer',
+  rules: [{ id: 'visa-only', type: 'equals', key: '251', value: 'Visa' }]
+};
+
+const loadFile = (content: string, name = 'rules.json') => {
+  File.prototype.text = jest.fn().mockResolvedValue(content);
+  fireEvent.change(screen.getByLabelText('Load rule pack'), {
+    target: { files: [new File([content], name, { type: 'application/json' })] }
+  });
+};
+
+describe('RulePackPanel', () => {
+  const defaultPacks: RulePackSetting[] = [{ id: 'default', pack: KLVRules.defaultRulePack, enabled: true }];
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    mockOnChange.mockClear();
+  });
+
+  it('should list packs with their rule counts', () => {
+    render(<RulePackPanel packs={defaultPacks} onChange={mockOnChange} />);
+
+    expect(screen.getByLabelText(`Default (${KLVRules.defaultRulePack.rules.length})`)).toBeChecked();
+    expect(screen.queryByLabelText('Remove Default')).not.toBeInTheDocument();
+  });
+
+  it('should toggle a pack', async () => {
+    const user = userEvent.setup();
+    render(<RulePackPanel packs={defaultPacks} onChange={mockOnChange} />);
+
+    await user.click(screen.getByLabelText(/^Default/));
+
+    expect(mockOnChange).toHaveBeenCalledWith([{ id: 'default', pack: KLVRules.defaultRulePack, enabled: false }]);
+  });
+
+  it('should add a pack loaded from JSON', async () => {
+    render(<RulePackPanel packs={defaultPacks} onChange={mockOnChange} />);
+
+    loadFile(JSON.stringify(customPack));
+
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenCalledWith([...defaultPacks, { id: 'loaded:Acquirer', pack: customPack, enabled: true }]);
+    });
+  });
+
+  it('should replace a pack loaded again under the same name, but not the built-in pack', async () => {
+    const packs: RulePackSetting[] = [...defaultPacks, { id: 'loaded:Acquirer', pack: { ...customPack, rules: [] }, enabled: false }];
+    render(<RulePackPanel packs={packs} onChange={mockOnChange} />);
+
+    loadFile(JSON.stringify(customPack));
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenCalledWith([...defaultPacks, { id: 'loaded:Acquirer', pack: customPack, enabled: true }]);
+    });
+
+    const userDefault = { ...customPack, name: 'Default' };
+    loadFile(JSON.stringify(userDefault));
+    await waitFor(() => {
+      expect(mockOnChange).toHaveBeenLastCalledWith([...packs, { id: 'loaded:Default', pack: userDefault, enabled: true }]);
+    });
+  });
+
+  it('should show why a pack could not be loaded', async () => {
+    render(<RulePackPanel packs={defaultPacks} onChange={mockOnChange} />);
+
+    loadFile('{ "name": "Broken" }', 'broken.json');
+
+    expect(await screen.findByText('broken.json: Rule pack needs a "rules" array')).toBeInTheDocument();
+    expect(mockOnChange).not.toHaveBeenCalled();
+  });
+
+  it('should show when a file cannot be read', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    render(<RulePackPanel packs={defaultPacks} onChange={mockOnChange} />);
+
+    File.prototype.text = jest.fn().mockRejectedValue(new Error('Permission denied'));
+    fireEvent.change(screen.getByLabelText('Load rule pack'), {
+      target: { files: [new File([''], 'locked.json', { type: 'application/json' })] }
+    });
+
+    expect(await screen.findByText('locked.json: The file could not be read')).toBeInTheDocument();
+    expect(consoleSpy).toHaveBeenCalledWith('Error reading rule pack:', expect.any(Error));
+    expect(mockOnChange).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should remove a loaded pack', async () => {
+    const user = userEvent.setup();
+    const packs: RulePackSetting[] = [...defaultPacks, { id: 'loaded:Acquirer', pack: KLVRules.loadRulePack(JSON.stringify(customPack)).pack!, enabled: true }];
+    render(<RulePackPanel packs={packs} onChange={mockOnChange} />);
+
+    await user.click(screen.getByLabelText('Remove Acquirer'));
+
+    expect(mockOnChange).toHaveBeenCalledWith(defaultPacks);
+  });
+});
@@ -1,7 +1,8 @@
 import React from 'react';
 import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import Statistics from '../../components/Statistics';
-import { KLVEntry } from '../../utils/KLVParser';
+import KLVParser, { KLVEntry } from '../../utils/KLVParser';
 
 describe('Statistics', () => {
   const mockResults: KLVEntry[] = [
@@ -205,4 +206,47 @@ describe('Statistics', () => {
     const updatedStatsContainer = screen.getByText('Total Entries').parentElement;
     expect(updatedStatsContainer).toHaveTextContent('2');
   });
+
+  it('should count MCC groups and report clicks', async () => {
+    const onSelectGroup = jest.fn();
+    const mccResults: KLVEntry[] = [
+      {
+        key: '026',
+        len: 4,
+        value: '7995',
+        pos: 0,
+        name: 'Merchant Category Code',
+        mccInfo: KLVParser.findMCC('7995')!
+      }
+    ];
+
+    render(<Statistics results={mccResults} onSelectGroup={onSelectGroup} />);
+
+    await userEvent.click(screen.getByText('Gambling: 1'));
+    expect(onSelectGroup).toHaveBeenCalledWith('gambling');
+  });
+
+  it('should count passed and failed PAN checks', () => {
+    const { results } = KLVParser.parse('91616411111111111111191216411111******1111253042222');
+
+    render(<Statistics results={results} />);
+
+    expect(screen.getByText('PAN checks:')).toBeInTheDocument();
+    expect(screen.getByText('Passed: 2')).toBeInTheDocument();
+    expect(screen.getByText('Failed: 1')).toBeInTheDocument();
+  });
+
+  it('should list repeated keys', () => {
+    const { results } = KLVParser.parse('00206AB48DE02604457700206CD12EF00201X');
+
+    render(<Statistics results={results} />);
+
+    expect(screen.getByText('Duplicate keys:')).toBeInTheDocument();
+    expect(screen.getByText('002 ×3')).toBeInTheDocument();
+  });
+
+  it('should not show MCC groups without MCC entries', () => {
+    render(<Statistics results={mockResults} />);
+    expect(screen.queryByText('MCC groups:')).not.toBeInTheDocument();
+  });
 });
\ No newline at end of file
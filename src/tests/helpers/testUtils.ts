@@ -1,4 +1,4 @@
-import { KLVEntry } from '../../utils/KLVParser';
+import { KLVEntry, KLVParseError } from '../../utils/KLVParser';
 
 // Mock KLV data for testing
 export const mockKLVEntries: KLVEntry[] = [
@@ -167,7 +167,7 @@ export const expectValidKLVEntry = (entry: KLVEntry, expectedKey: string, expect
   expect(typeof entry.name).toBe('string');
 };
 
-export const expectValidParseResult = (result: { results: KLVEntry[], errors: string[] }, expectedCount: number) => {
+export const expectValidParseResult = (result: { results: KLVEntry[], errors: KLVParseError[] }, expectedCount: number) => {
   expect(result.errors).toHaveLength(0);
   expect(result.results).toHaveLength(expectedCount);
   result.results.forEach(entry => {
@@ -0,0 +1,207 @@
+import BinaryKLVParser from '../../utils/BinaryKLVParser';
+import KLVParser, { KLVErrorCode, KLVParseResult } from '../../utils/KLVParser';
+
+const SECURITY_UL = '060E2B34010101010E01020301010000';
+const UAS_UL = '060E2B34020B01010E01030101000000';
+const MISB_PACKET = `${UAS_UL} 30 0208000459F4A6AA4AA8 03094D495353494F4E3031 050271C2 0D045595B66D 0E045B5360C4 0F02C221 41010D 01026A10`;
+
+describe('BinaryKLVParser', () => {
+  describe('hex conversion', () => {
+    it('should convert hex text to bytes ignoring whitespace', () => {
+      const bytes = BinaryKLVParser.hexToBytes('06 0e\n2B34');
+      expect(Array.from(bytes!)).toEqual([0x06, 0x0e, 0x2b, 0x34]);
+    });
+
+    it('should reject odd-length or non-hex input', () => {
+      expect(BinaryKLVParser.hexToBytes('060')).toBeNull();
+      expect(BinaryKLVParser.hexToBytes('06ZZ')).toBeNull();
+    });
+
+    it('should convert bytes to uppercase hex with an optional separator', () => {
+      const bytes = new Uint8Array([0x06, 0x0e, 0xff]);
+      expect(BinaryKLVParser.bytesToHex(bytes)).toBe('060EFF');
+      expect(BinaryKLVParser.bytesToHex(bytes, '.')).toBe('06.0E.FF');
+    });
+  });
+
+  describe('BER lengths', () => {
+    it('should read short-form lengths', () => {
+      expect(BinaryKLVParser.readBERLength(new Uint8Array([0x7f]), 0)).toEqual({ value: 127, size: 1 });
+    });
+
+    it('should read long-form lengths', () => {
+      expect(BinaryKLVParser.readBERLength(new Uint8Array([0x81, 0xc8]), 0)).toEqual({ value: 200, size: 2 });
+      expect(BinaryKLVParser.readBERLength(new Uint8Array([0x82, 0x01, 0x00]), 0)).toEqual({ value: 256, size: 3 });
+    });
+
+    it('should reject indefinite, oversized and truncated lengths', () => {
+      expect(BinaryKLVParser.readBERLength(new Uint8Array([0x80]), 0)).toBeNull();
+      expect(BinaryKLVParser.readBERLength(new Uint8Array([0x85, 1, 2, 3, 4, 5]), 0)).toBeNull();
+      expect(BinaryKLVParser.readBERLength(new Uint8Array([0x82, 0x01]), 0)).toBeNull();
+    });
+  });
+
+  describe('BER-OID values', () => {
+    it('should read single and multi-byte values', () => {
+      expect(BinaryKLVParser.readBEROID(new Uint8Array([0x41]), 0)).toEqual({ value: 65, size: 1 });
+      expect(BinaryKLVParser.readBEROID(new Uint8Array([0x81, 0x01]), 0)).toEqual({ value: 129, size: 2 });
+    });
+
+    it('should reject unterminated values', () => {
+      expect(BinaryKLVParser.readBEROID(new Uint8Array([0x81]), 0)).toBeNull();
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse a Universal Label keyed packet', () => {
+      const result: KLVParseResult = BinaryKLVParser.parseHex(`${SECURITY_UL} 01 01`);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.results).toEqual([{
+        key: '06.0E.2B.34.01.01.01.01.0E.01.02.03.01.01.00.00',
+        len: 1,
+        value: '01',
+        pos: 0,
+        name: 'Security Classification'
+      }]);
+    });
+
+    it('should parse consecutive packets with long-form lengths', () => {
+      const value = '00'.repeat(130);
+      const result = BinaryKLVParser.parseHex(`${SECURITY_UL} 81 82 ${value} ${SECURITY_UL} 01 02`);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.results.map(r => [r.name, r.len, r.pos])).toEqual([
+        ['Security Classification', 130, 0],
+        ['Security Classification', 1, 148]
+      ]);
+    });
+
+    it('should name unrecognised labels Unknown', () => {
+      const result = BinaryKLVParser.parseHex('060E2B34FFFFFFFFFFFFFFFFFFFFFFFF 00');
+      expect(result.results[0].name).toBe('Unknown');
+    });
+
+    it('should parse fixed-size local tags', () => {
+      expect(BinaryKLVParser.parseHex('05 02 ABCD', { keyFormat: 'local1' }).results[0])
+        .toEqual(expect.objectContaining({ key: '5', len: 2, value: 'ABCD' }));
+      expect(BinaryKLVParser.parseHex('0102 01 FF', { keyFormat: 'local2' }).results[0].key).toBe('258');
+      expect(BinaryKLVParser.parseHex('00010000 00', { keyFormat: 'local4' }).results[0].key).toBe('65536');
+    });
+
+    it('should parse BER-OID local tags', () => {
+      const result = BinaryKLVParser.parseHex('02 01 AA 8101 01 BB', { keyFormat: 'berOid' });
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.results.map(r => [r.key, r.value, r.pos])).toEqual([
+        ['2', 'AA', 0],
+        ['129', 'BB', 3]
+      ]);
+    });
+
+    it('should reject keys without the SMPTE label prefix', () => {
+      const result = BinaryKLVParser.parseHex('FF0E2B34010101010E01020301010000 01 01');
+      expect(result.errors[0]).toEqual(expect.objectContaining({ code: KLVErrorCode.INVALID_KEY, start: 0, end: 16 }));
+    });
+
+    it('should report truncated keys, lengths and values', () => {
+      expect(BinaryKLVParser.parseHex('060E2B34').errors[0].code).toBe(KLVErrorCode.TRUNCATED_HEADER);
+      expect(BinaryKLVParser.parseHex(`${SECURITY_UL} 82 01`).errors[0].code).toBe(KLVErrorCode.INVALID_LENGTH);
+
+      const truncated = BinaryKLVParser.parseHex(`${SECURITY_UL} 05 0102`);
+      expect(truncated.errors[0]).toEqual(expect.objectContaining({
+        code: KLVErrorCode.TRUNCATED_VALUE,
+        message: 'Incomplete value at byte 17',
+        start: 17,
+        end: 19
+      }));
+    });
+
+    it('should report invalid hex input', () => {
+      const result = BinaryKLVParser.parseHex('06 0E XX');
+
+      expect(result.results).toHaveLength(0);
+      expect(result.errors[0]).toEqual(expect.objectContaining({
+        code: KLVErrorCode.INVALID_HEX,
+        message: 'Invalid hex character at position 4'
+      }));
+      expect(BinaryKLVParser.parseHex('060').errors[0].message).toBe('Hex input has an odd number of digits');
+    });
+
+    it('should handle empty input', () => {
+      expect(BinaryKLVParser.parseHex('')).toEqual({ results: [], errors: [] });
+    });
+  });
+
+  describe('MISB ST 0601', () => {
+    it('should expand a UAS Datalink packet into decoded tags', () => {
+      const result = BinaryKLVParser.parseHex(MISB_PACKET);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.results.map(r => [r.key, r.name, r.formattedValue])).toEqual([
+        ['2', 'Precision Time Stamp', '2008-10-24T00:13:29.913Z'],
+        ['3', 'Mission ID', 'MISSION01'],
+        ['5', 'Platform Heading Angle', '159.974365°'],
+        ['13', 'Sensor Latitude', '60.176823°'],
+        ['14', 'Sensor Longitude', '128.426759°'],
+        ['15', 'Sensor True Altitude', '14190.719463 m'],
+        ['65', 'UAS Datalink LS Version Number', '13'],
+        ['1', 'Checksum', '0x6A10']
+      ]);
+      expect(result.results[0]).toEqual(expect.objectContaining({ len: 8, value: '000459F4A6AA4AA8', pos: 17 }));
+    });
+
+    it('should report a checksum mismatch', () => {
+      const result = BinaryKLVParser.parseHex(MISB_PACKET.replace('01026A10', '01026A11'));
+
+      expect(result.results).toHaveLength(8);
+      expect(result.errors).toEqual([expect.objectContaining({
+        code: KLVErrorCode.CHECKSUM_MISMATCH,
+        message: 'Checksum mismatch at byte 63: expected 0x6A10',
+        start: 63,
+        end: 65,
+        key: '1'
+      })]);
+    });
+
+    it('should report tags that overrun the local set', () => {
+      const result = BinaryKLVParser.parseHex(`${UAS_UL} 03 0205FF`);
+      expect(result.errors[0]).toEqual(expect.objectContaining({
+        code: KLVErrorCode.TRUNCATED_VALUE,
+        message: 'Incomplete MISB ST 0601 tag at byte 17'
+      }));
+    });
+
+    it('should report a time stamp outside the supported date range', () => {
+      const result = BinaryKLVParser.parseHex(`${UAS_UL} 0A 0208FFFFFFFFFFFFFFFF`);
+
+      expect(result.results[0].formattedValue).toBeUndefined();
+      expect(result.errors).toEqual([expect.objectContaining({
+        code: KLVErrorCode.INVALID_FIELD_VALUE,
+        message: 'Time stamp at byte 19 is outside the supported date range',
+        severity: 'warning',
+        key: '2'
+      })]);
+    });
+
+    it('should leave values of the wrong size as hex', () => {
+      const result = BinaryKLVParser.parseHex(`${UAS_UL} 07 0500 0F03010203`);
+
+      expect(result.results.map(r => [r.key, r.value, r.formattedValue])).toEqual([
+        ['5', '', undefined],
+        ['15', '010203', undefined]
+      ]);
+      expect(result.errors.map(e => [e.code, e.message, e.severity])).toEqual([
+        [KLVErrorCode.INVALID_FIELD_LENGTH, 'Platform Heading Angle at byte 19 is 0 bytes, expected 2', 'warning'],
+        [KLVErrorCode.INVALID_FIELD_LENGTH, 'Sensor True Altitude at byte 21 is 3 bytes, expected 2', 'warning']
+      ]);
+      expect(BinaryKLVParser.decodeMISBValue(new Uint8Array([]), KLVParser.misb0601Definitions[5])).toBeUndefined();
+    });
+
+    it('should scale signed values and flag the out-of-range indicator', () => {
+      const latitude = KLVParser.misb0601Definitions[13];
+      expect(BinaryKLVParser.decodeMISBValue(new Uint8Array([0x80, 0, 0, 0]), latitude)).toBe('Out of range');
+      expect(BinaryKLVParser.decodeMISBValue(new Uint8Array([0x7f, 0xff, 0xff, 0xff]), latitude)).toBe('90°');
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import KLVParser, { KLVEntry, KLVParseResult, KLVValidationResult } from '../../utils/KLVParser';
+import KLVParser, { KLVEntry, KLVErrorCode, KLVParseResult, KLVPatchOperation, KLVValidationResult } from '../../utils/KLVParser';
 
 
 describe('KLVParser', () => {
@@ -14,7 +14,8 @@ describe('KLVParser', () => {
         len: 6,
         value: 'AB48DE',
         pos: 0,
-        name: 'Tracking Number'
+        name: 'Tracking Number',
+        source: { offset: 0, endOffset: 11, line: 1, column: 1 }
       });
     });
 
@@ -30,7 +31,8 @@ describe('KLVParser', () => {
         len: 6,
         value: 'AB48DE',
         pos: 0,
-        name: 'Tracking Number'
+        name: 'Tracking Number',
+        source: { offset: 0, endOffset: 11, line: 1, column: 1 }
       });
       
       expect(result.results[1]).toEqual({
@@ -38,7 +40,9 @@ describe('KLVParser', () => {
         len: 0,
         value: '',
         pos: 11,
-        name: 'Tracking Number'
+        name: 'Tracking Number',
+        source: { offset: 11, endOffset: 16, line: 1, column: 12 },
+        duplicate: true
       });
     });
 
@@ -57,7 +61,14 @@ describe('KLVParser', () => {
       const result: KLVParseResult = KLVParser.parse(input);
       
       expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toBe('Incomplete entry at position 0');
+      expect(result.errors[0]).toEqual({
+        code: KLVErrorCode.TRUNCATED_HEADER,
+        message: 'Incomplete entry at position 0',
+        start: 0,
+        end: 3,
+        severity: 'error',
+        source: { offset: 0, endOffset: 3, line: 1, column: 1 }
+      });
       expect(result.results).toHaveLength(0);
     });
 
@@ -66,7 +77,14 @@ describe('KLVParser', () => {
       const result: KLVParseResult = KLVParser.parse(input);
       
       expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toBe('Invalid format at position 0');
+      expect(result.errors[0]).toEqual({
+        code: KLVErrorCode.INVALID_KEY,
+        message: 'Invalid key at position 0',
+        start: 0,
+        end: 3,
+        severity: 'error',
+        source: { offset: 0, endOffset: 3, line: 1, column: 1 }
+      });
       expect(result.results).toHaveLength(0);
     });
 
@@ -75,7 +93,15 @@ describe('KLVParser', () => {
       const result: KLVParseResult = KLVParser.parse(input);
       
       expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toBe('Invalid format at position 0');
+      expect(result.errors[0]).toEqual({
+        code: KLVErrorCode.INVALID_LENGTH,
+        message: 'Invalid length at position 3',
+        start: 3,
+        end: 5,
+        severity: 'error',
+        key: '002',
+        source: { offset: 3, endOffset: 5, line: 1, column: 4 }
+      });
       expect(result.results).toHaveLength(0);
     });
 
@@ -84,7 +110,15 @@ describe('KLVParser', () => {
       const result: KLVParseResult = KLVParser.parse(input);
       
       expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toBe('Incomplete value at position 5');
+      expect(result.errors[0]).toEqual({
+        code: KLVErrorCode.TRUNCATED_VALUE,
+        message: 'Incomplete value at position 5',
+        start: 5,
+        end: 8,
+        severity: 'error',
+        key: '002',
+        source: { offset: 5, endOffset: 8, line: 1, column: 6 }
+      });
       expect(result.results).toHaveLength(0);
     });
 
@@ -99,7 +133,8 @@ describe('KLVParser', () => {
         len: 0,
         value: '',
         pos: 0,
-        name: 'Tracking Number'
+        name: 'Tracking Number',
+        source: { offset: 0, endOffset: 5, line: 1, column: 1 }
       });
     });
 
@@ -129,6 +164,370 @@ describe('KLVParser', () => {
     });
   });
 
+  describe('source positions', () => {
+    it('should map entries back to the original line and column', () => {
+      const input = '002 06 AB48DE\n  026 04 4577';
+      const result: KLVParseResult = KLVParser.parse(input);
+
+      expect(result.results[0].pos).toBe(0);
+      expect(result.results[0].source).toEqual({ offset: 0, endOffset: 13, line: 1, column: 1 });
+      expect(result.results[1].pos).toBe(11);
+      expect(result.results[1].source).toEqual({ offset: 16, endOffset: 27, line: 2, column: 3 });
+      expect(input.slice(16, 27)).toBe('026 04 4577');
+    });
+
+    it('should map errors back to the original line and column', () => {
+      const input = '00206AB48DE\r\n\tXYZ0612345';
+      const result: KLVParseResult = KLVParser.parse(input);
+
+      expect(result.errors[0].start).toBe(11);
+      expect(result.errors[0].source).toEqual({ offset: 14, endOffset: 17, line: 2, column: 2 });
+    });
+
+    it('should point truncation errors just past the last character', () => {
+      const input = '00210AB  \n';
+      const result: KLVParseResult = KLVParser.parse(input);
+
+      expect(result.errors[0].source).toEqual({ offset: 5, endOffset: 7, line: 1, column: 6 });
+    });
+  });
+
+  describe('parse with error recovery', () => {
+    it('should stop at the first error when recovery is off', () => {
+      const input = '00206AB48DEXX12345026044577';
+      const result: KLVParseResult = KLVParser.parse(input);
+
+      expect(result.results).toHaveLength(1);
+      expect(result.errors.map(e => e.message)).toEqual(['Invalid key at position 11']);
+      expect(result.errors[0].severity).toBe('error');
+    });
+
+    it('should skip a corrupt entry and keep parsing the rest', () => {
+      const input = '00206AB48DEXX12345026044577';
+      const result: KLVParseResult = KLVParser.parse(input, { recover: true });
+
+      expect(result.results.map(r => r.key)).toEqual(['002', '026']);
+      expect(result.results[1]).toEqual(expect.objectContaining({ value: '4577', pos: 18 }));
+      expect(result.errors).toEqual([{
+        code: KLVErrorCode.INVALID_KEY,
+        message: 'Invalid key at position 11 (skipped positions 11-17, resumed at position 18)',
+        start: 11,
+        end: 18,
+        severity: 'warning',
+        source: { offset: 11, endOffset: 18, line: 1, column: 12 }
+      }]);
+    });
+
+    it('should recover from a length that runs past the end of the input', () => {
+      const input = '00206AB48DE04299026044577';
+      const result: KLVParseResult = KLVParser.parse(input, { recover: true });
+
+      expect(result.results.map(r => r.key)).toEqual(['002', '026']);
+      expect(result.errors[0]).toEqual(expect.objectContaining({
+        code: KLVErrorCode.TRUNCATED_VALUE,
+        message: 'Incomplete value at position 16 (skipped positions 11-15, resumed at position 16)',
+        key: '042',
+        severity: 'warning'
+      }));
+    });
+
+    it('should only resume at known keys whose length fits the input', () => {
+      // 555 is not a defined key and 026 claims more data than is left
+      const input = 'XX55502AB02699';
+      const result: KLVParseResult = KLVParser.parse(input, { recover: true });
+
+      expect(result.results).toHaveLength(0);
+      expect(result.errors.map(e => e.message)).toEqual(['Invalid key at position 0']);
+    });
+
+    it('should measure the length of a resumed entry in the length unit', () => {
+      // Two UTF-16 characters, four UTF-8 bytes
+      const utf8 = KLVParser.parse('XX04204\u00e9\u00e9', { recover: true, lengthUnit: 'utf8' });
+      expect(utf8.results).toEqual([expect.objectContaining({ key: '042', value: '\u00e9\u00e9' })]);
+
+      // Two UTF-16 units, but only one code point
+      const codePoint = KLVParser.parse('XX04202\u{1F600}', { recover: true, lengthUnit: 'codePoint' });
+      expect(codePoint.results).toHaveLength(0);
+      expect(codePoint.errors.map(e => e.message)).toEqual(['Invalid key at position 0']);
+    });
+
+    it('should report every skipped range when there are several bad entries', () => {
+      const input = 'ZZZ00206AB48DE!!026044577';
+      const result: KLVParseResult = KLVParser.parse(input, { recover: true });
+
+      expect(result.results.map(r => r.key)).toEqual(['002', '026']);
+      expect(result.errors.map(e => [e.code, e.start, e.end])).toEqual([
+        [KLVErrorCode.INVALID_KEY, 0, 3],
+        [KLVErrorCode.INVALID_KEY, 14, 16]
+      ]);
+    });
+
+    it('should pass the recovery option through validate', () => {
+      const result: KLVValidationResult = KLVParser.validate('00206AB48DEXX12345026044577', { recover: true });
+
+      expect(result.isValid).toBe(false);
+      expect(result.entriesCount).toBe(2);
+    });
+  });
+
+  describe('dialects', () => {
+    it('should ship named presets', () => {
+      expect(KLVParser.dialects.standard).toEqual({
+        name: 'Standard (KKK LL)',
+        keyWidth: 3,
+        lengthWidth: 2,
+        lengthEncoding: 'decimal'
+      });
+      expect(Object.keys(KLVParser.dialects)).toEqual(['standard', 'tag2', 'lll', 'hexLength']);
+    });
+
+    it('should parse 2-digit tags', () => {
+      const result = KLVParser.parse('0206AB48DE2604TEST', { dialect: KLVParser.dialects.tag2 });
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.results.map(r => [r.key, r.len, r.value, r.pos])).toEqual([
+        ['02', 6, 'AB48DE', 0],
+        ['26', 4, 'TEST', 10]
+      ]);
+      expect(result.results[0].name).toBe('Unknown');
+    });
+
+    it('should parse 3-digit lengths', () => {
+      const value = 'A'.repeat(120);
+      const result = KLVParser.parse(`043120${value}026004TEST`, { dialect: KLVParser.dialects.lll });
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.results[0]).toEqual(expect.objectContaining({ key: '043', len: 120, name: 'Merchant Description' }));
+      expect(result.results[1]).toEqual(expect.objectContaining({ key: '026', value: 'TEST', pos: 126 }));
+    });
+
+    it('should parse hex-encoded lengths', () => {
+      const result = KLVParser.parse('0020AABCDEFGHIJ0260f123456789012345', { dialect: KLVParser.dialects.hexLength });
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.results.map(r => r.len)).toEqual([10, 15]);
+    });
+
+    it('should reject length characters outside the dialect encoding', () => {
+      const decimal = KLVParser.parse('0020AABCDEFGHIJ');
+      const hex = KLVParser.parse('002G1A', { dialect: KLVParser.dialects.hexLength });
+
+      expect(decimal.errors[0].code).toBe(KLVErrorCode.INVALID_LENGTH);
+      expect(hex.errors[0]).toEqual(expect.objectContaining({ code: KLVErrorCode.INVALID_LENGTH, start: 3, end: 5 }));
+    });
+
+    it('should recover using the dialect header width', () => {
+      const result = KLVParser.parse('0206AB48DE##2604TEST', { dialect: KLVParser.dialects.tag2, recover: true });
+
+      expect(result.results.map(r => r.key)).toEqual(['02', '26']);
+      expect(result.errors[0]).toEqual(expect.objectContaining({ start: 10, end: 12, severity: 'warning' }));
+    });
+
+    it('should pass the dialect through validate', () => {
+      const result = KLVParser.validate('0206AB48DE', { dialect: KLVParser.dialects.tag2 });
+
+      expect(result.isValid).toBe(true);
+      expect(result.entriesCount).toBe(1);
+    });
+
+    it('should build with the dialect key width and length encoding', () => {
+      const entries = [
+        { key: '2', value: 'ABCDEFGHIJ' },
+        { key: '26', value: 'TEST' }
+      ];
+
+      expect(KLVParser.build(entries, { dialect: KLVParser.dialects.tag2, checkValues: false }).klv).toBe('0210ABCDEFGHIJ2604TEST');
+      expect(KLVParser.build(entries, { dialect: KLVParser.dialects.lll, checkValues: false }).klv).toBe('002010ABCDEFGHIJ026004TEST');
+      expect(KLVParser.build(entries, { dialect: KLVParser.dialects.hexLength, checkValues: false }).klv).toBe('0020AABCDEFGHIJ02604TEST');
+    });
+
+    it('should re-frame entries in a dialect with the klv export format', () => {
+      const { results } = KLVParser.parse('00206AB48DE026044577');
+
+      expect(KLVParser.export(results, 'klv')).toBe('00206AB48DE026044577');
+      expect(KLVParser.export(results, 'klv', { dialect: KLVParser.dialects.lll })).toBe('002006AB48DE0260044577');
+    });
+
+    it('should refuse to re-frame entries that do not fit the dialect', () => {
+      const { results } = KLVParser.parse(`999100${'A'.repeat(100)}`, { dialect: KLVParser.dialects.lll });
+
+      expect(() => KLVParser.export(results, 'klv'))
+        .toThrow('Value of 999 is 100 characters; a 2-character length field holds at most 99');
+    });
+
+    it('should encode and decode lengths', () => {
+      expect(KLVParser.encodeLength(255, KLVParser.dialects.hexLength)).toBe('FF');
+      expect(KLVParser.decodeLength('ff', KLVParser.dialects.hexLength)).toBe(255);
+      expect(KLVParser.decodeLength('1', KLVParser.dialects.standard)).toBeNull();
+    });
+  });
+
+  describe('composite fields', () => {
+    it('should split positional subfields', () => {
+      const result = KLVParser.parse('0481085001R07R1');
+      const [entry] = result.results;
+
+      expect(entry.children!.map(c => [c.key, c.name, c.value, c.pos])).toEqual([
+        ['1', 'Fraud Score', '850', 5],
+        ['2', 'Score Reason Code', '01', 8],
+        ['3', 'Rules Triggered', 'R07R1', 10]
+      ]);
+      expect(entry.children![1].source).toEqual({ offset: 8, endOffset: 10, line: 1, column: 9 });
+    });
+
+    it('should stop positional subfields at the end of a short value', () => {
+      const [entry] = KLVParser.parse('06103102').results;
+      expect(entry.children!.map(c => c.value)).toEqual(['1', '0', '2']);
+    });
+
+    it('should parse nested KLV with the layout dialect and names', () => {
+      const [entry] = KLVParser.parse('2631501041234020312A').results;
+
+      expect(entry.children!.map(c => [c.key, c.name, c.len, c.value, c.pos])).toEqual([
+        ['01', 'Issuer ID', 4, '1234', 5],
+        ['02', 'Product ID', 3, '12A', 13]
+      ]);
+      expect(entry.children![1].source).toEqual({ offset: 13, endOffset: 20, line: 1, column: 14 });
+    });
+
+    it('should parse hex BER-TLV sub-elements', () => {
+      const [entry] = KLVParser.parse('270289F2608AABBCCDDEEFF00119501FF').results;
+
+      expect(entry.children!.map(c => [c.key, c.name, c.len, c.value, c.pos])).toEqual([
+        ['9F26', 'Application Cryptogram', 8, 'AABBCCDDEEFF0011', 5],
+        ['95', 'Terminal Verification Results', 1, 'FF', 27]
+      ]);
+    });
+
+    it('should leave values that do not fit the layout opaque', () => {
+      expect(KLVParser.parse('27003ABC').results[0].children).toBeUndefined();
+      expect(KLVParser.parse('26303XYZ').results[0].children).toBeUndefined();
+    });
+
+    it('should keep the nesting in JSON exports', () => {
+      const { results } = KLVParser.parse('0481085001R07R1');
+      const exported = JSON.parse(KLVParser.export(results, 'json'));
+      expect(exported[0].children[0]).toEqual(expect.objectContaining({ name: 'Fraud Score', value: '850' }));
+    });
+  });
+
+  describe('field schema', () => {
+    it('should accept values that match the schema', () => {
+      const { results } = KLVParser.parse('0041200000000100004903840026045999');
+      expect(results).toHaveLength(3);
+      expect(KLVParser.checkFields(results)).toEqual([]);
+    });
+
+    it('should report type violations', () => {
+      const [entry] = KLVParser.parse('004051O0AB').results;
+
+      expect(KLVParser.checkField(entry)).toEqual([{
+        code: KLVErrorCode.INVALID_FIELD_TYPE,
+        message: 'Field 004 (Original Transaction Amount) must be numeric',
+        start: 5,
+        end: 10,
+        severity: 'warning',
+        key: '004',
+        source: entry.source
+      }]);
+    });
+
+    it('should report fixed and variable length violations', () => {
+      const [currency] = KLVParser.parse('049408400840084008400840084008400840084008400').results;
+      const [amount] = KLVParser.parse('00413' + '1'.repeat(13)).results;
+
+      expect(KLVParser.checkField(currency)[0]).toEqual(expect.objectContaining({
+        code: KLVErrorCode.INVALID_FIELD_LENGTH,
+        message: 'Field 049 (Original Currency Code) must be 3 characters, got 40'
+      }));
+      expect(KLVParser.checkField(amount)[0].message).toBe('Field 004 (Original Transaction Amount) must be 1-12 characters, got 13');
+    });
+
+    it('should report pattern violations only when the type is right', () => {
+      const [badNumber] = KLVParser.parse('26009447911-123').results;
+      const [nonAscii] = KLVParser.parse('26009+44791é123').results;
+
+      expect(KLVParser.checkField(badNumber).map(w => w.code)).toEqual([KLVErrorCode.INVALID_FIELD_FORMAT]);
+      expect(KLVParser.checkField(nonAscii).map(w => w.code)).toEqual([KLVErrorCode.INVALID_FIELD_TYPE]);
+    });
+
+    it('should check hex-encoded binary fields in whole bytes', () => {
+      const [pinBlock] = KLVParser.parse('05216ABCDEF0123456789').results;
+      expect(KLVParser.checkField(pinBlock)).toEqual([]);
+      expect(KLVParser.checkField({ ...pinBlock, value: 'ABCDEF012345678G' })[0].code).toBe(KLVErrorCode.INVALID_FIELD_TYPE);
+    });
+
+    it('should skip keys without a schema and non-standard key widths', () => {
+      expect(KLVParser.parse('99903abc').results.flatMap(r => KLVParser.checkField(r))).toEqual([]);
+      const [entry] = KLVParser.parse('0403ABC', { dialect: KLVParser.dialects.tag2 }).results;
+      expect(KLVParser.checkField(entry, KLVParser.dialects.tag2)).toEqual([]);
+    });
+
+    it('should decode enumerated codes into formatted values', () => {
+      const { results } = KLVParser.parse('06801Y25003EMV25104Visa27401D9230129240203');
+
+      expect(results.map(r => r.formattedValue)).toEqual([
+        'Y - Recurring',
+        'EMV - Chip (EMV)',
+        'Visa - Visa',
+        'D - Declined',
+        '2 - Token activated',
+        '03 - Fraud suspected'
+      ]);
+      expect(KLVParser.checkFields(results)).toEqual([]);
+    });
+
+    it('should flag codes outside the enumeration', () => {
+      const [entry] = KLVParser.parse('06801X').results;
+
+      expect(entry.formattedValue).toBeUndefined();
+      expect(KLVParser.checkField(entry)).toEqual([expect.objectContaining({
+        code: KLVErrorCode.INVALID_FIELD_VALUE,
+        message: "Field 068 (Is Recurring) has unknown code 'X'"
+      })]);
+      expect(KLVParser.formatEnumeration('toString', '251')).toBeNull();
+    });
+
+    it('should reject impossible dates', () => {
+      const [leapDay] = KLVParser.parse('4210820240229').results;
+      const [badDay] = KLVParser.parse('4210820230229').results;
+      const [badMonth] = KLVParser.parse('4210820241301').results;
+
+      expect(KLVParser.checkField(leapDay)).toEqual([]);
+      expect(KLVParser.checkField(badDay)).toEqual([expect.objectContaining({
+        code: KLVErrorCode.INVALID_FIELD_DATE,
+        message: 'Field 421 (Sender Date of Birth) is not a valid YYYYMMDD date'
+      })]);
+      expect(KLVParser.checkField(badMonth)[0].code).toBe(KLVErrorCode.INVALID_FIELD_DATE);
+    });
+
+    it('should flag expiries relative to the as-of date', () => {
+      const [expiry] = KLVParser.parse('911042703').results;
+
+      expect(KLVParser.checkField(expiry, undefined, new Date('2027-03-31T23:59:59Z'))).toEqual([]);
+      expect(KLVParser.checkField(expiry, undefined, new Date('2027-04-01T00:00:00Z'))).toEqual([expect.objectContaining({
+        code: KLVErrorCode.EXPIRED_DATE,
+        message: 'Field 911 (Digitized PAN Expiry) expired 2027-03 (as of 2027-04-01)'
+      })]);
+    });
+
+    it('should pass the as-of date through validate', () => {
+      const input = '9041420261019120000';
+
+      expect(KLVParser.validate(input, { asOf: new Date('2026-10-19T11:00:00Z') }).warnings).toEqual([]);
+      expect(KLVParser.validate(input, { asOf: new Date('2026-10-20T00:00:00Z') }).warnings[0].code)
+        .toBe(KLVErrorCode.EXPIRED_DATE);
+    });
+
+    it('should return field warnings from validate without failing it', () => {
+      const result = KLVParser.validate('004051O0AB026044577');
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings.map(w => w.key)).toEqual(['004']);
+    });
+  });
+
   describe('validate', () => {
     it('should validate correct KLV string', () => {
       const input = '00206AB48DE02604TEST';
@@ -147,6 +546,7 @@ describe('KLVParser', () => {
       expect(result.isValid).toBe(false);
       expect(result.entriesCount).toBe(1);
       expect(result.errors.length).toBeGreaterThan(0);
+      expect(result.errors[0].code).toBe(KLVErrorCode.TRUNCATED_HEADER);
     });
 
     it('should handle empty string validation', () => {
@@ -160,6 +560,374 @@ describe('KLVParser', () => {
     });
   });
 
+  describe('diff', () => {
+    const a = '00206AB48DE02604541104106TERM01';
+
+    it('should report identical messages', () => {
+      expect(KLVParser.diff(a, a)).toEqual({
+        added: [], removed: [], changed: [], reordered: [], identical: true, errors: { a: [], b: [] }
+      });
+    });
+
+    it('should report parsing errors and never call a malformed message identical', () => {
+      const diff = KLVParser.diff('00206AB48DE02604541', '00206AB48DE');
+
+      expect(diff.identical).toBe(false);
+      expect(diff.changed).toEqual([]);
+      expect(diff.errors.a).toEqual([expect.objectContaining({ code: KLVErrorCode.TRUNCATED_VALUE })]);
+      expect(diff.errors.b).toEqual([]);
+    });
+
+    it('should report added, removed and changed keys with their values', () => {
+      const diff = KLVParser.diff(a, '00206AB48DE02604581204209MERCHANT1');
+
+      expect(diff.identical).toBe(false);
+      expect(diff.changed).toEqual([{
+        key: '026', name: 'Merchant Category Code', occurrence: 0, oldValue: '5411', oldIndex: 1, newValue: '5812', newIndex: 1
+      }]);
+      expect(diff.removed).toEqual([{ key: '041', name: 'Terminal ID', occurrence: 0, oldValue: 'TERM01', oldIndex: 2 }]);
+      expect(diff.added).toEqual([{ key: '042', name: 'Merchant Identifier', occurrence: 0, newValue: 'MERCHANT1', newIndex: 2 }]);
+      expect(diff.reordered).toEqual([]);
+    });
+
+    it('should report keys that moved', () => {
+      const diff = KLVParser.diff(a, '02604541104106TERM0100206AB48DE');
+
+      expect(diff.reordered.map(entry => [entry.key, entry.oldIndex, entry.newIndex])).toEqual([['002', 0, 2]]);
+      expect(diff.changed).toEqual([]);
+      expect(diff.identical).toBe(false);
+    });
+
+    it('should match repeated keys by occurrence', () => {
+      const diff = KLVParser.diff('00201A00201B', '00201A00201C');
+
+      expect(diff.changed).toEqual([expect.objectContaining({ key: '002', occurrence: 1, oldValue: 'B', newValue: 'C' })]);
+      expect(diff.added).toEqual([]);
+      expect(diff.removed).toEqual([]);
+    });
+
+    it('should parse both messages with the options', () => {
+      const diff = KLVParser.diff('002006AB48DE', '002006CD12EF', { dialect: KLVParser.dialects.lll });
+
+      expect(diff.changed).toEqual([expect.objectContaining({ oldValue: 'AB48DE', newValue: 'CD12EF' })]);
+    });
+  });
+
+  describe('patch', () => {
+    const klv = '00206AB48DE02604541104106TERM01';
+
+    it('should set, remove, rename and move keys in order', () => {
+      const result = KLVParser.patch(klv, [
+        { op: 'set', key: '026', value: '5812' },
+        { op: 'remove', key: '041' },
+        { op: 'rename', key: '002', to: '037' },
+        { op: 'move', key: '026', index: 0 }
+      ]);
+
+      expect(result).toEqual({ klv: '02604581203706AB48DE', errors: [] });
+    });
+
+    it('should re-frame lengths for the new values', () => {
+      expect(KLVParser.patch(klv, [{ op: 'set', key: '041', value: 'T1' }]).klv).toBe('00206AB48DE02604541104102T1');
+      expect(KLVParser.patch('002006AB48DE', [{ op: 'set', key: '002', value: 'A' }], { dialect: KLVParser.dialects.lll }).klv)
+        .toBe('002001A');
+    });
+
+    it('should count lengths in the given unit', () => {
+      const result = KLVParser.patch('00201A', [{ op: 'set', key: '002', value: 'Ä' }], { lengthUnit: 'utf8' });
+
+      expect(result.klv).toBe('00202Ä');
+    });
+
+    it('should append a key when setting the next occurrence', () => {
+      expect(KLVParser.patch(klv, [{ op: 'set', key: '042', value: 'M1' }]).klv).toBe(`${klv}04202M1`);
+      expect(KLVParser.patch('00201A', [{ op: 'set', key: '002', occurrence: 1, value: 'B' }]).klv).toBe('00201A00201B');
+    });
+
+    it('should target repeated keys by occurrence', () => {
+      const result = KLVParser.patch('00201A00201B00201C', [{ op: 'remove', key: '002', occurrence: 1 }]);
+
+      expect(result.klv).toBe('00201A00201C');
+    });
+
+    it('should not change the input or the operations', () => {
+      const operations: KLVPatchOperation[] = [{ op: 'set', key: '026', value: '5812' }];
+      const saved = JSON.stringify(operations);
+
+      KLVParser.patch(klv, operations);
+      expect(JSON.stringify(operations)).toBe(saved);
+      expect(KLVParser.patch(klv, []).klv).toBe(klv);
+    });
+
+    it('should fail on keys that are not in the message', () => {
+      expect(KLVParser.patch(klv, [{ op: 'remove', key: '042' }])).toEqual({
+        klv: null,
+        errors: ['Operation 1 (remove 042): key 042 is not in the message']
+      });
+      expect(KLVParser.patch(klv, [{ op: 'rename', key: '026', occurrence: 1, to: '027' }]).errors)
+        .toEqual(['Operation 1 (rename 026): key 026 has no occurrence 1']);
+    });
+
+    it('should fail on a move past the end', () => {
+      expect(KLVParser.patch(klv, [{ op: 'move', key: '002', index: 3 }]).errors)
+        .toEqual(['Operation 1 (move 002): index 3 is past the end of the message']);
+    });
+
+    it('should fail on malformed operations before applying any', () => {
+      const operations = [
+        { op: 'set', key: '026' },
+        { op: 'swap', key: '002' },
+        { op: 'rename', key: 'abc', to: '041' }
+      ] as unknown as KLVPatchOperation[];
+
+      expect(KLVParser.patch(klv, operations).errors).toEqual([
+        'Operation 1 (set 026): "value" must be a string',
+        'Operation 2 (swap 002): unknown op "swap" (expected set, remove, rename, move)',
+        'Operation 3 (rename abc): "key" must be a string of digits'
+      ]);
+    });
+
+    it('should fail on input that does not parse', () => {
+      expect(KLVParser.patch('00206AB', [])).toEqual({ klv: null, errors: ['Input: Incomplete value at position 5'] });
+    });
+
+    it('should fail rather than return a message that does not parse back', () => {
+      const result = KLVParser.patch('00202AB', [{ op: 'set', key: '044', value: 'ACME STORE' }]);
+
+      expect(result).toEqual({ klv: null, errors: ['Value of 044 contains whitespace, which parsing ignores'] });
+    });
+
+    it('should fail when a value cannot be framed', () => {
+      const result = KLVParser.patch(klv, [{ op: 'set', key: '041', value: 'X'.repeat(100) }]);
+
+      expect(result.klv).toBeNull();
+      expect(result.errors).toEqual(['Value of 041 is 100 characters; a 2-character length field holds at most 99']);
+    });
+  });
+
+  describe('loadPatch', () => {
+    it('should load operations saved as JSON', () => {
+      const operations: KLVPatchOperation[] = [
+        { op: 'set', key: '026', value: '5812' },
+        { op: 'move', key: '041', index: 0 }
+      ];
+      const loaded = KLVParser.loadPatch(JSON.stringify(operations));
+
+      expect(loaded).toEqual({ operations, errors: [] });
+      expect(KLVParser.patch('00206AB48DE02604541104106TERM01', loaded.operations as KLVPatchOperation[]).klv).toBe('04106TERM0100206AB48DE026045812');
+    });
+
+    it('should reject invalid JSON and non-arrays', () => {
+      expect(KLVParser.loadPatch('[{').errors[0]).toMatch(/^Invalid JSON: /);
+      expect(KLVParser.loadPatch('{"op": "remove"}')).toEqual({
+        operations: null,
+        errors: ['Patch must be a JSON array of operations']
+      });
+    });
+
+    it('should report each malformed operation', () => {
+      expect(KLVParser.loadPatch('[null, {"op": "move", "key": "002", "index": -1}]').errors).toEqual([
+        'Operation 1: must be an object',
+        'Operation 2 (move 002): "index" must be a whole number from 0'
+      ]);
+    });
+  });
+
+  describe('length units', () => {
+    // 'กข' is two characters and six UTF-8 bytes
+    const thai = '\u0e01\u0e02';
+
+    it('should measure values in each unit', () => {
+      expect(KLVParser.measureLength(thai)).toBe(2);
+      expect(KLVParser.measureLength(thai, 'codePoint')).toBe(2);
+      expect(KLVParser.measureLength(thai, 'utf8')).toBe(6);
+      expect(KLVParser.measureLength(thai, 'latin1')).toBe(2);
+      expect(KLVParser.measureLength('\u{1F600}', 'utf16')).toBe(2);
+      expect(KLVParser.measureLength('\u{1F600}', 'codePoint')).toBe(1);
+      expect(KLVParser.measureLength('\u{1F600}', 'utf8')).toBe(4);
+    });
+
+    it('should parse with lengths counted in UTF-8 bytes', () => {
+      const { results, errors } = KLVParser.parse(`10806${thai}026045411`, { lengthUnit: 'utf8' });
+
+      expect(errors).toHaveLength(0);
+      expect(results.map(r => [r.key, r.len, r.value, r.pos])).toEqual([
+        ['108', 6, thai, 0],
+        ['026', 4, '5411', 7]
+      ]);
+    });
+
+    it('should parse astral characters as one code point', () => {
+      const { results, errors } = KLVParser.parse('10801\u{1F600}026045411', { lengthUnit: 'codePoint' });
+
+      expect(errors).toHaveLength(0);
+      expect(results[0].value).toBe('\u{1F600}');
+      expect(results[1].value).toBe('5411');
+    });
+
+    it('should report a length that ends inside a character', () => {
+      const { errors } = KLVParser.parse(`10802${thai}`, { lengthUnit: 'utf8' });
+
+      expect(errors).toEqual([expect.objectContaining({
+        code: KLVErrorCode.INVALID_LENGTH,
+        message: 'Length at position 3 ends inside a multibyte character',
+        start: 3,
+        end: 6
+      })]);
+    });
+
+    it('should report characters that Latin-1 cannot encode', () => {
+      const { results, errors } = KLVParser.parse(`10802${thai}`, { lengthUnit: 'latin1' });
+
+      expect(results).toEqual([]);
+      expect(errors).toEqual([expect.objectContaining({
+        code: KLVErrorCode.INVALID_ENCODING,
+        message: 'Value at position 5 has characters that Latin-1 cannot encode',
+        start: 5,
+        end: 7
+      })]);
+      expect(KLVParser.parse('10804Caf\u00e9', { lengthUnit: 'latin1' }).errors).toEqual([]);
+    });
+
+    it('should report a value shorter than its byte length', () => {
+      const { errors } = KLVParser.parse(`10807${thai}`, { lengthUnit: 'utf8' });
+
+      expect(errors[0].code).toBe(KLVErrorCode.TRUNCATED_VALUE);
+    });
+
+    it('should build with the length unit', () => {
+      const entries = [{ key: '108', value: thai }];
+
+      expect(KLVParser.build(entries).klv).toBe(`10802${thai}`);
+      expect(KLVParser.build(entries, { lengthUnit: 'utf8' }).klv).toBe(`10806${thai}`);
+      expect(KLVParser.build([{ key: '108', value: 'Caf\u00e9' }], { lengthUnit: 'latin1' }).klv).toBe('10804Caf\u00e9');
+    });
+
+    it('should reject values the length unit cannot frame', () => {
+      expect(KLVParser.build([{ key: '108', value: thai }], { lengthUnit: 'latin1' }).errors).toEqual([{
+        index: 0,
+        key: '108',
+        code: KLVErrorCode.INVALID_ENCODING,
+        message: 'Value of 108 has characters that Latin-1 cannot encode'
+      }]);
+      expect(KLVParser.build([{ key: '108', value: thai.repeat(17) }], { lengthUnit: 'utf8' }).errors[0].message)
+        .toBe('Value of 108 is 102 UTF-8 bytes; a 2-character length field holds at most 99');
+    });
+
+    it('should find units that frame the input differently', () => {
+      const input = `10806${thai}026045411`;
+
+      expect(KLVParser.findFramingConflicts(input)).toEqual(['utf8', 'latin1']);
+      expect(KLVParser.findFramingConflicts(input, { lengthUnit: 'utf8' })).toEqual(['utf16', 'codePoint', 'latin1']);
+      expect(KLVParser.findFramingConflicts('00206AB48DE026045411')).toEqual([]);
+    });
+
+    it('should redact with the length unit', () => {
+      const input = `10806${thai}110164111111111111111`;
+
+      expect(KLVParser.redact(input, 'strip', KLVParser.dialects.standard, 'utf8')).toBe(`10806${thai}`);
+    });
+
+    it('should tokenise to the measured length', () => {
+      const redacted = KLVParser.redact('25406\u00e9\u00e9\u00e900201a', 'tokenise', KLVParser.dialects.standard, 'utf8');
+      const { results, errors } = KLVParser.parse(redacted, { lengthUnit: 'utf8' });
+
+      expect(errors).toHaveLength(0);
+      expect(results.map(entry => entry.key)).toEqual(['254', '002']);
+      expect(results[0].value).toMatch(/^\d{6}$/);
+    });
+  });
+
+  describe('duplicate keys', () => {
+    const input = '00206AB48DE02604457700206CD12EF';
+
+    it('should flag every repeat of a key', () => {
+      const { results, errors } = KLVParser.parse(input);
+
+      expect(errors).toHaveLength(0);
+      expect(results.map(r => r.duplicate)).toEqual([undefined, undefined, true]);
+      expect(KLVParser.findDuplicates(results)).toEqual({ '002': 2 });
+    });
+
+    it('should report repeats as errors in error mode', () => {
+      const { results, errors } = KLVParser.parse(input, { duplicates: 'error' });
+
+      expect(results).toHaveLength(3);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        code: KLVErrorCode.DUPLICATE_KEY,
+        message: 'Duplicate key 002 at position 20 (first seen at position 0)',
+        start: 20,
+        end: 31,
+        severity: 'error',
+        key: '002'
+      });
+      expect(KLVParser.validate(input, { duplicates: 'error' }).isValid).toBe(false);
+    });
+
+    it('should resolve repeats when building an object', () => {
+      const { results } = KLVParser.parse(input);
+
+      expect(KLVParser.toObject(results)).toEqual({ '002': 'AB48DE', '026': '4577' });
+      expect(KLVParser.toObject(results, 'last')).toEqual({ '002': 'CD12EF', '026': '4577' });
+      expect(KLVParser.toObject(results, 'array')).toEqual({ '002': ['AB48DE', 'CD12EF'], '026': ['4577'] });
+      expect(KLVParser.toObject(results, 'error')).toBeNull();
+    });
+
+    it('should build an object in error mode when no key repeats', () => {
+      const { results } = KLVParser.parse('00206AB48DE026044577');
+
+      expect(KLVParser.toObject(results, 'error')).toEqual({ '002': 'AB48DE', '026': '4577' });
+      expect(KLVParser.findDuplicates(results)).toEqual({});
+    });
+  });
+
+  describe('message profiles', () => {
+    const cashback = '00206AB48DE00412000000050010049038400260454113020384030312000000001000';
+
+    it('should accept a message that matches the profile', () => {
+      const { results } = KLVParser.parse(cashback);
+
+      expect(KLVParser.checkProfile(results, 'cashback')).toEqual({
+        profile: 'cashback',
+        conforms: true,
+        missing: [],
+        forbidden: [],
+        unexpected: [],
+        outOfOrder: []
+      });
+    });
+
+    it('should list missing, forbidden, unexpected and out-of-order keys', () => {
+      const { results } = KLVParser.parse('0041200000005001000206AB48DE04903840268020399901X30312000000001000');
+      const result = KLVParser.checkProfile(results, 'cashback');
+
+      expect(result.conforms).toBe(false);
+      expect(result.missing).toEqual(['026', '302']);
+      expect(result.forbidden).toEqual(['268']);
+      expect(result.unexpected).toEqual(['999']);
+      expect(result.outOfOrder).toEqual(['004']);
+    });
+
+    it('should check the profile in validate', () => {
+      const validation = KLVParser.validate(cashback, { profile: 'oct' });
+
+      expect(validation.isValid).toBe(true);
+      expect(validation.profile!.conforms).toBe(false);
+      expect(validation.profile!.missing).toEqual(['400', '412', '108', '110']);
+      expect(validation.profile!.forbidden).toEqual(['302', '303']);
+      expect(KLVParser.validate(cashback).profile).toBeUndefined();
+    });
+
+    it('should only list defined keys in the profiles', () => {
+      Object.values(KLVParser.profiles).forEach(profile => {
+        [...profile.required, ...profile.optional, ...profile.forbidden].forEach(key => {
+          expect(KLVParser.definitions).toHaveProperty(key);
+        });
+      });
+    });
+  });
+
   describe('export', () => {
     const sampleResults: KLVEntry[] = [
       {
@@ -193,9 +961,17 @@ describe('KLVParser', () => {
       const result = KLVParser.export(sampleResults, 'csv');
       const lines = result.split('\n');
       
-      expect(lines[0]).toBe('Key,Name,Length,Value,Position');
-      expect(lines[1]).toBe('"002","Tracking Number","6","AB48DE","0"');
-      expect(lines[2]).toBe('"026","Merchant Category Code","4","4577","11"');
+      expect(lines[0]).toBe('Key,Name,Length,Value,Position,Formatted Value');
+      expect(lines[1]).toBe('"002","Tracking Number","6","AB48DE","0",""');
+      expect(lines[2]).toBe('"026","Merchant Category Code","4","4577","11",""');
+    });
+
+    it('should include formatted values in CSV and table exports', () => {
+      const { results } = KLVParser.parse('0041200000005001004903840');
+
+      expect(KLVParser.export(results, 'csv').split('\n')[1])
+        .toBe('"004","Original Transaction Amount","12","000000050010","0","USD 500.10"');
+      expect(KLVParser.export(results, 'table').split('\n')[0]).toContain('000000050010 (USD 500.10)');
     });
 
     it('should export to table format', () => {
@@ -221,6 +997,160 @@ describe('KLVParser', () => {
     });
   });
 
+  describe('PAN checks', () => {
+    it('should verify the Luhn check digit', () => {
+      expect(KLVParser.luhnCheck('4111111111111111')).toBe(true);
+      expect(KLVParser.luhnCheck('4111111111111112')).toBe(false);
+      expect(KLVParser.luhnCheck('411111******1111')).toBe(false);
+    });
+
+    it('should identify card brands by prefix', () => {
+      expect(KLVParser.findCardBrand('4111111111111111')!.name).toBe('Visa');
+      expect(KLVParser.findCardBrand('5555555555554444')!.name).toBe('Mastercard');
+      expect(KLVParser.findCardBrand('2223000048400011')!.name).toBe('Mastercard');
+      expect(KLVParser.findCardBrand('378282246310005')!.name).toBe('American Express');
+      expect(KLVParser.findCardBrand('555555******4444')!.name).toBe('Mastercard');
+      expect(KLVParser.findCardBrand('9999999999999999')).toBeNull();
+    });
+
+    it('should check the digitized PANs against their brand', () => {
+      const { results } = KLVParser.parse('254165555555555554444916165555555555554445');
+
+      expect(results[0].panInfo).toEqual({
+        brand: 'Mastercard', luhnValid: true, lengthValid: true, expectedBrand: 'Mastercard', brandValid: true
+      });
+      expect(results[1].panInfo).toEqual({
+        brand: 'Mastercard', luhnValid: false, lengthValid: true, expectedBrand: 'Visa', brandValid: false
+      });
+    });
+
+    it('should skip the Luhn check for masked PANs', () => {
+      const { results } = KLVParser.parse('25416555555555555444491216411111******1111');
+
+      expect(results[1].panInfo).toMatchObject({ brand: 'Visa', luhnValid: null, expectedBrand: 'Mastercard', brandValid: false });
+    });
+
+    it('should compare the last four digits with the full PAN', () => {
+      expect(KLVParser.parse('91216411111******1111253041111').results[1].lastFourMatch).toBe(true);
+      expect(KLVParser.parse('916164111111111111111253044444').results[1].lastFourMatch).toBe(false);
+      expect(KLVParser.parse('253041111').results[0].lastFourMatch).toBeUndefined();
+    });
+
+    it('should report failed PAN checks as warnings', () => {
+      const { warnings } = KLVParser.validate('9161541111111111111291216555555******4444253041111');
+
+      expect(warnings.map(w => w.code)).toEqual([
+        KLVErrorCode.INVALID_PAN, KLVErrorCode.INVALID_PAN, KLVErrorCode.INVALID_PAN, KLVErrorCode.PAN_MISMATCH
+      ]);
+      expect(warnings[0].message).toBe('Field 916 (Visa Digitized PAN) fails the Luhn check');
+      expect(warnings[1].message).toBe('Field 916 (Visa Digitized PAN) has 15 digits, not a valid Visa length');
+      expect(warnings[2].message).toBe('Field 912 (Digitized FPAN Masked) has a Mastercard prefix, expected Visa');
+      expect(warnings[3].message).toBe('Field 253 (Last Four Digits PAN) does not match the last four digits of the PAN');
+    });
+  });
+
+  describe('masking', () => {
+    const input = '110164111111111111111052160123456789ABCDEF04208MERCH001';
+
+    it('should keep the first six and last four digits of card numbers', () => {
+      expect(KLVParser.maskValue('4111111111111111', 'pan')).toBe('411111******1111');
+      expect(KLVParser.maskValue('1234', 'pan')).toBe('****');
+    });
+
+    it('should mask authentication and personal data entirely', () => {
+      expect(KLVParser.maskValue('0123456789ABCDEF', 'auth')).toBe('****************');
+      expect(KLVParser.maskValue('+441234567890', 'pii')).toBe('*************');
+    });
+
+    it('should mask only sensitive entries', () => {
+      const { results } = KLVParser.parse(input);
+      const masked = KLVParser.maskEntries(results);
+
+      expect(masked.map(r => r.value)).toEqual(['411111******1111', '****************', 'MERCH001']);
+      expect(masked[2]).toBe(results[2]);
+      expect(results[0].value).toBe('4111111111111111');
+    });
+
+    it('should mask formatted values', () => {
+      const { results } = KLVParser.parse('4210819900115');
+      const [masked] = KLVParser.maskEntries(results);
+
+      expect(results[0].formattedValue).toBe('1990-01-15');
+      expect(masked.value).toBe('********');
+      expect(masked.formattedValue).toBe('**********');
+    });
+
+    it('should mask sensitive values in the input', () => {
+      const { results } = KLVParser.parse(input);
+
+      expect(KLVParser.maskInput(input, results))
+        .toBe('11016411111******111105216****************04208MERCH001');
+    });
+
+    it('should mask values in the input of other dialects', () => {
+      const dialect = KLVParser.dialects.lll;
+      const lllInput = '260013+441234567890 002003ABC';
+      const { results } = KLVParser.parse(lllInput, { dialect });
+
+      expect(KLVParser.maskInput(lllInput, results, dialect)).toBe('260013*************002003ABC');
+    });
+
+    it('should mask every export format when asked', () => {
+      const { results } = KLVParser.parse(input);
+
+      expect(KLVParser.export(results, 'json', { mask: true })).not.toContain('4111111111111111');
+      expect(KLVParser.export(results, 'csv', { mask: true }).split('\n')[1]).toContain('"411111******1111"');
+      expect(KLVParser.export(results, 'table', { mask: true })).not.toContain('0123456789ABCDEF');
+      expect(KLVParser.export(results, 'klv', { mask: true }))
+        .toBe('11016411111******111105216****************04208MERCH001');
+      expect(KLVParser.export(results, 'csv')).toContain('"4111111111111111"');
+    });
+  });
+
+  describe('PCI redaction', () => {
+    const input = '110164111111111111111052160123456789ABCDEF04208MERCH001';
+
+    it('should strip card numbers and PIN blocks', () => {
+      expect(KLVParser.redact(input, 'strip')).toBe('04208MERCH001');
+    });
+
+    it('should tokenise card numbers and PIN blocks in place', () => {
+      const redacted = KLVParser.redact(input, 'tokenise');
+      const { results, errors } = KLVParser.parse(redacted);
+
+      expect(errors).toHaveLength(0);
+      expect(results[0].value).toMatch(/^\d{12}1111$/);
+      expect(results[0].value).not.toBe('4111111111111111');
+      expect(results[1].value).toMatch(/^\d{16}$/);
+      expect(results[2].value).toBe('MERCH001');
+    });
+
+    it('should give the same value the same token', () => {
+      expect(KLVParser.tokeniseValue('4111111111111111', 'pan'))
+        .toBe(KLVParser.tokeniseValue('4111111111111111', 'pan'));
+      expect(KLVParser.tokeniseValue('4111111111111111', 'pan'))
+        .not.toBe(KLVParser.tokeniseValue('4111111111112222', 'pan'));
+    });
+
+    it('should leave personal data and input without PCI data untouched', () => {
+      const input = '00412000000050010\n26013+447700900123';
+
+      expect(KLVParser.redact(input, 'strip')).toBe(input);
+    });
+
+    it('should keep the line breaks of multi-line input', () => {
+      const lines = '00206AB48DE\n110164111111111111111\n042 08 MERCH001';
+
+      expect(KLVParser.redact(lines, 'strip')).toBe('00206AB48DE\n\n042 08 MERCH001');
+      expect(KLVParser.redact(lines, 'tokenise')).toMatch(/^00206AB48DE\n11016\d{12}1111\n042 08 MERCH001$/);
+      expect(KLVParser.redact('11016 4111111111111111', 'tokenise')).toMatch(/^11016 \d{12}1111$/);
+    });
+
+    it('should find entries after corrupt data', () => {
+      expect(KLVParser.redact('00206AB48DEXX12345110164111111111111111', 'strip')).toBe('00206AB48DEXX12345');
+    });
+  });
+
   describe('build', () => {
     it('should build KLV string from entries', () => {
       const entries = [
@@ -229,7 +1159,7 @@ describe('KLVParser', () => {
       ];
       
       const result = KLVParser.build(entries);
-      expect(result).toBe('00207TEST123026041234');
+      expect(result).toEqual({ klv: '00207TEST123026041234', errors: [], warnings: [] });
     });
 
     it('should pad keys with leading zeros', () => {
@@ -238,8 +1168,8 @@ describe('KLVParser', () => {
         { key: '26', value: 'ABCD' }
       ];
       
-      const result = KLVParser.build(entries);
-      expect(result).toBe('00204TEST02604ABCD');
+      const result = KLVParser.build(entries, { checkValues: false });
+      expect(result.klv).toBe('00204TEST02604ABCD');
     });
 
     it('should handle non-empty values correctly', () => {
@@ -248,33 +1178,119 @@ describe('KLVParser', () => {
       ];
       
       const result = KLVParser.build(entries);
-      expect(result).toBe('00201A');
+      expect(result.klv).toBe('00201A');
     });
 
-    it('should filter out entries with empty values', () => {
+    it('should report entries with empty values', () => {
       const entries = [
         { key: '002', value: '' }
       ];
       
       const result = KLVParser.build(entries);
-      expect(result).toBe('');
+      expect(result.klv).toBe('');
+      expect(result.errors).toEqual([
+        { index: 0, key: '002', code: KLVErrorCode.EMPTY_VALUE, message: 'Value of 002 is empty' }
+      ]);
     });
 
-    it('should filter out entries without key or value', () => {
+    it('should report every entry without key or value', () => {
       const entries = [
         { key: '002', value: 'VALID' },
         { key: '', value: 'NO_KEY' },
         { key: '026', value: '' },
-        { key: '041', value: 'ALSO_VALID' }
+        { key: '041', value: 'VALID' }
       ];
       
       const result = KLVParser.build(entries);
-      expect(result).toBe('00205VALID04110ALSO_VALID');
+      expect(result.klv).toBe('');
+      expect(result.errors.map(e => [e.index, e.code])).toEqual([
+        [1, KLVErrorCode.INVALID_KEY],
+        [2, KLVErrorCode.EMPTY_VALUE]
+      ]);
+      expect(result.errors[0].message).toBe("Key '' must be numeric");
     });
 
     it('should handle empty entries array', () => {
       const result = KLVParser.build([]);
-      expect(result).toBe('');
+      expect(result).toEqual({ klv: '', errors: [], warnings: [] });
+    });
+
+    it('should reject values that overflow the length field', () => {
+      const result = KLVParser.build([{ key: '999', value: 'A'.repeat(100) }]);
+
+      expect(result.klv).toBe('');
+      expect(result.errors).toEqual([{
+        index: 0,
+        key: '999',
+        code: KLVErrorCode.INVALID_LENGTH,
+        message: 'Value of 999 is 100 characters; a 2-character length field holds at most 99'
+      }]);
+      expect(KLVParser.build([{ key: '999', value: 'A'.repeat(255) }], { dialect: KLVParser.dialects.hexLength }).klv)
+        .toBe(`999FF${'A'.repeat(255)}`);
+      expect(KLVParser.build([{ key: '999', value: 'A'.repeat(100) }], { dialect: KLVParser.dialects.lll }).klv)
+        .toBe(`999100${'A'.repeat(100)}`);
+    });
+
+    it('should reject keys that are not numeric or too long', () => {
+      const result = KLVParser.build([
+        { key: '0A2', value: 'TEST' },
+        { key: '1002', value: 'TEST' }
+      ]);
+
+      expect(result.errors.map(e => e.message)).toEqual([
+        "Key '0A2' must be numeric",
+        'Key 1002 is longer than 3 digits'
+      ]);
+      expect(KLVParser.build([{ key: '123', value: 'TEST' }], { dialect: KLVParser.dialects.tag2 }).errors[0].message)
+        .toBe('Key 123 is longer than 2 digits');
+    });
+
+    it('should report schema violations', () => {
+      const result = KLVParser.build([
+        { key: '026', value: 'ABCD' },
+        { key: '254', value: '5555555555554444' }
+      ]);
+
+      expect(result.klv).toBe('');
+      expect(result.errors).toEqual([
+        { index: 0, key: '026', code: KLVErrorCode.INVALID_FIELD_TYPE, message: 'Field 026 (Merchant Category Code) must be numeric' }
+      ]);
+      expect(KLVParser.build([{ key: '026', value: 'ABCD' }], { checkValues: false }).klv).toBe('02604ABCD');
+    });
+
+    it('should build expired dates and failing card numbers with warnings', () => {
+      const result = KLVParser.build([
+        { key: '911', value: '2001' },
+        { key: '254', value: '5555555555554445' }
+      ], { asOf: new Date('2024-06-15T00:00:00Z') });
+
+      expect(result.klv).toBe('911042001254165555555555554445');
+      expect(result.errors).toEqual([]);
+      expect(result.warnings.map(w => [w.index, w.code])).toEqual([
+        [0, KLVErrorCode.EXPIRED_DATE],
+        [1, KLVErrorCode.INVALID_PAN]
+      ]);
+      expect(result.warnings[0].message).toContain('(as of 2024-06-15)');
+    });
+
+    it('should reject whitespace that parsing would drop', () => {
+      const entries = [
+        { key: '002', value: 'AB' },
+        { key: '044', value: 'Test Merchant' }
+      ];
+      const result = KLVParser.build(entries, { checkValues: false });
+
+      expect(result.klv).toBe('');
+      expect(result.errors).toEqual([{
+        index: 1,
+        key: '044',
+        code: KLVErrorCode.WHITESPACE_IN_VALUE,
+        message: 'Value of 044 contains whitespace, which parsing ignores'
+      }]);
+
+      const built = KLVParser.build([{ key: '002', value: 'AB' }, { key: '044', value: 'TestMerchant' }]).klv;
+      expect(KLVParser.parse(built).results.map(({ key, value }) => ({ key, value })))
+        .toEqual([{ key: '002', value: 'AB' }, { key: '044', value: 'TestMerchant' }]);
     });
 
     it('should handle large values correctly', () => {
@@ -283,8 +1299,8 @@ describe('KLVParser', () => {
         { key: '002', value: longValue }
       ];
       
-      const result = KLVParser.build(entries);
-      expect(result).toBe(`00299${longValue}`);
+      const result = KLVParser.build(entries, { checkValues: false });
+      expect(result.klv).toBe(`00299${longValue}`);
     });
   });
 
@@ -366,4 +1382,187 @@ describe('KLVParser', () => {
       expect(KLVParser.currencyMapping['392']).toBeDefined(); // JPY
     });
   });
+
+  describe('country mapping', () => {
+    it('should cover the full ISO 3166-1 list', () => {
+      expect(Object.keys(KLVParser.countryMapping)).toHaveLength(249);
+    });
+
+    it('should find countries by numeric, alpha-2 and alpha-3 codes', () => {
+      const expected = { numeric: '840', alpha2: 'US', alpha3: 'USA', name: 'United States', flag: '🇺🇸' };
+
+      expect(KLVParser.findCountry('840')).toEqual(expected);
+      expect(KLVParser.findCountry('US')).toEqual(expected);
+      expect(KLVParser.findCountry('usa')).toEqual(expected);
+      expect(KLVParser.findCountry('36')).toEqual(expect.objectContaining({ alpha2: 'AU' }));
+    });
+
+    it('should return null for codes that do not exist', () => {
+      expect(KLVParser.findCountry('999')).toBeNull();
+      expect(KLVParser.findCountry('XX')).toBeNull();
+      expect(KLVParser.findCountry('ABCD')).toBeNull();
+    });
+
+    it('should format country fields only', () => {
+      expect(KLVParser.formatCountry('GB', '404')).toEqual({
+        formattedValue: '🇬🇧 GBR - United Kingdom',
+        countryInfo: { numeric: '826', alpha2: 'GB', alpha3: 'GBR', name: 'United Kingdom', flag: '🇬🇧' }
+      });
+      expect(KLVParser.formatCountry('GB', '002')).toBeNull();
+    });
+
+    it('should flag unknown country codes', () => {
+      expect(KLVParser.formatCountry('ZZZ', '425')).toEqual({
+        formattedValue: 'ZZZ (Unknown Country Code)',
+        countryInfo: undefined
+      });
+    });
+
+    it('should integrate country formatting in parse function', () => {
+      const { results } = KLVParser.parse('2590384040402DE42503ZZZ');
+
+      expect(results.map(r => r.formattedValue)).toEqual([
+        '🇺🇸 USA - United States',
+        '🇩🇪 DEU - Germany',
+        'ZZZ (Unknown Country Code)'
+      ]);
+    });
+  });
+
+  describe('dates', () => {
+    it('should decode each date layout to ISO 8601', () => {
+      expect(KLVParser.decodeDate('19900517', 'YYYYMMDD')!.iso).toBe('1990-05-17');
+      expect(KLVParser.decodeDate('2703', 'YYMM')!.iso).toBe('2027-03');
+      expect(KLVParser.decodeDate('20261019123000', 'YYYYMMDDhhmmss')!.iso).toBe('2026-10-19T12:30:00Z');
+    });
+
+    it('should give the end of the period', () => {
+      expect(KLVParser.decodeDate('2712', 'YYMM')!.end.toISOString()).toBe('2028-01-01T00:00:00.000Z');
+      expect(KLVParser.decodeDate('19900517', 'YYYYMMDD')!.end.toISOString()).toBe('1990-05-18T00:00:00.000Z');
+    });
+
+    it('should return null for impossible or malformed dates', () => {
+      expect(KLVParser.decodeDate('2713', 'YYMM')).toBeNull();
+      expect(KLVParser.decodeDate('20240431', 'YYYYMMDD')).toBeNull();
+      expect(KLVParser.decodeDate('20261019240000', 'YYYYMMDDhhmmss')).toBeNull();
+      expect(KLVParser.decodeDate('2026-10-19', 'YYYYMMDD')).toBeNull();
+    });
+
+    it('should format date fields during parse', () => {
+      const { results } = KLVParser.parse('421081990051791104270390414202610191230004210820230229');
+
+      expect(results.map(r => r.formattedValue)).toEqual(['1990-05-17', '2027-03', '2026-10-19T12:30:00Z', undefined]);
+    });
+  });
+
+  describe('merchant category codes', () => {
+    it('should look up codes with their group and risk', () => {
+      expect(KLVParser.findMCC('5411')).toEqual({
+        code: '5411',
+        description: 'Grocery Stores, Supermarkets',
+        group: 'grocery',
+        groupLabel: 'Grocery',
+        highRisk: false
+      });
+      expect(KLVParser.findMCC('7995')).toEqual(expect.objectContaining({ group: 'gambling', highRisk: true }));
+      expect(KLVParser.findMCC('6051')).toEqual(expect.objectContaining({ group: 'quasi-cash', highRisk: true }));
+    });
+
+    it('should resolve codes in the reserved airline, car rental and hotel ranges', () => {
+      expect(KLVParser.findMCC('3001')).toEqual(expect.objectContaining({ description: 'Airline', group: 'airlines' }));
+      expect(KLVParser.findMCC('3400')).toEqual(expect.objectContaining({ group: 'car-rental' }));
+      expect(KLVParser.findMCC('3750')).toEqual(expect.objectContaining({ group: 'lodging' }));
+    });
+
+    it('should return null for unknown or malformed codes', () => {
+      expect(KLVParser.findMCC('4577')).toBeNull();
+      expect(KLVParser.findMCC('541')).toBeNull();
+    });
+
+    it('should format the MCC field during parse', () => {
+      const [entry] = KLVParser.parse('026047995').results;
+
+      expect(entry.formattedValue).toBe('7995 - Betting, Casino Gaming and Lottery Tickets (Gambling, high risk)');
+      expect(entry.mccInfo!.group).toBe('gambling');
+      expect(KLVParser.formatMCC('5411', '002')).toBeNull();
+    });
+
+    it('should leave unknown codes unformatted', () => {
+      const [entry] = KLVParser.parse('026044577').results;
+      expect(entry.formattedValue).toBeUndefined();
+      expect(entry.mccInfo).toBeUndefined();
+    });
+  });
+
+  describe('amount formatting', () => {
+    it('should apply the currency minor-unit exponent', () => {
+      expect(KLVParser.formatAmount('000000050010', '840')).toBe('USD 500.10');
+      expect(KLVParser.formatAmount('000000050010', '392')).toBe('JPY 50010');
+      expect(KLVParser.formatAmount('000000050010', '414')).toBe('KWD 50.010');
+    });
+
+    it('should keep a leading zero for amounts below one unit', () => {
+      expect(KLVParser.formatAmount('5', '840')).toBe('USD 0.05');
+      expect(KLVParser.formatAmount('000000000000', '840')).toBe('USD 0.00');
+    });
+
+    it('should not format non-numeric amounts or unknown currencies', () => {
+      expect(KLVParser.formatAmount('12A', '840')).toBeNull();
+      expect(KLVParser.formatAmount('100', '999')).toBeNull();
+    });
+
+    it('should format amounts with the message currency during parse', () => {
+      // Currency after the amount, cashback amount with its own currency
+      const { results } = KLVParser.parse('00412000000050010085031500490384030203392303041000');
+
+      expect(results.map(r => [r.key, r.formattedValue])).toEqual([
+        ['004', 'USD 500.10'],
+        ['085', 'USD 1.50'],
+        ['049', '🇺🇸 USD - US Dollar'],
+        ['302', undefined],
+        ['303', 'JPY 1000']
+      ]);
+    });
+
+    it('should leave amounts unformatted without a currency field', () => {
+      expect(KLVParser.parse('00412000000050010').results[0].formattedValue).toBeUndefined();
+    });
+  });
+
+  describe('conversion rate', () => {
+    it('should decode the implied decimal places', () => {
+      expect(KLVParser.decodeConversionRate('61234567')).toBe(1.234567);
+      expect(KLVParser.decodeConversionRate('00000125')).toBe(125);
+      expect(KLVParser.decodeConversionRate('70009500')).toBe(0.00095);
+    });
+
+    it('should reject values that are not 8 digits', () => {
+      expect(KLVParser.decodeConversionRate('6123456')).toBeNull();
+      expect(KLVParser.decodeConversionRate('6123456X')).toBeNull();
+    });
+
+    it('should format the rate and cross-check it against the original amount', () => {
+      const { results } = KLVParser.parse('01008612345670041200000005001004903840');
+      const [rate] = results;
+
+      expect(rate.formattedValue).toBe('1.234567');
+      expect(rate.conversionInfo).toEqual({
+        rate: 1.234567,
+        originalAmount: 'USD 500.10',
+        convertedAmount: '617.41'
+      });
+    });
+
+    it('should respect the currency exponent in the cross-check', () => {
+      const { results } = KLVParser.parse('010087000950000404100004903392');
+      expect(results[0].formattedValue).toBe('0.0009500');
+      expect(results[0].conversionInfo!.convertedAmount).toBe('0.95');
+    });
+
+    it('should skip the cross-check without an original amount and currency', () => {
+      const [rate] = KLVParser.parse('0100861234567').results;
+      expect(rate.formattedValue).toBe('1.234567');
+      expect(rate.conversionInfo).toBeUndefined();
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,163 @@
+import KLVParser from '../../utils/KLVParser';
+import KLVRules, { KLVRulePack } from '../../utils/KLVRules';
+
+const field = (key: string, value: string) => `${key}${value.length.toString().padStart(2, '0')}${value}`;
+
+const evaluate = (klv: string, packs?: KLVRulePack[]) => KLVRules.evaluate(KLVParser.parse(klv).results, packs);
+
+describe('KLVRules', () => {
+  describe('default rule pack', () => {
+    it('should require the cashback currency with the cashback amount', () => {
+      const violations = evaluate(field('303', '000000001000'));
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        ruleId: 'cashback-currency',
+        pack: 'Default',
+        severity: 'error',
+        key: '303',
+        message: 'Field 303 (Cashback POS Amount) requires 302 (Cashback POS Currency Code)'
+      });
+      expect(violations[0].source).toEqual({ offset: 0, endOffset: 17, line: 1, column: 1 });
+    });
+
+    it('should treat the installment fields as a set', () => {
+      const violations = evaluate(field('268', '03') + field('275', '01'));
+
+      expect(violations.map(v => v.message)).toEqual([
+        'Field 268 (Number of Installments) requires 273 (Installments Financing Type), 276 (Installments Type of Credit)'
+      ]);
+      expect(evaluate(field('268', '03') + field('273', 'A') + field('275', '01') + field('276', 'B'))).toEqual([]);
+    });
+
+    it('should require the token unique reference with digitization fields', () => {
+      expect(evaluate(field('911', '2703')).map(v => v.ruleId)).toEqual(['digitization-token-reference']);
+      expect(evaluate(field('911', '2703') + field('913', 'DWSPMC000000000132d72d4fcb2f4136a0532d3093ff1a45'))).toEqual([]);
+    });
+
+    it('should not allow both token services', () => {
+      const violations = evaluate(field('254', '5555555555554444') + field('916', '4111111111111111') + field('913', 'REF'));
+
+      expect(violations.map(v => v.message)).toEqual([
+        'Field 254 (MDES Digitized PAN) cannot appear with 916 (Visa Digitized PAN)'
+      ]);
+    });
+
+    it('should warn when the cashback currency differs from the transaction currency', () => {
+      const violations = evaluate(field('049', '840') + field('302', '978') + field('303', '000000001000'));
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        ruleId: 'cashback-same-currency',
+        severity: 'warning',
+        message: "Field 302 (Cashback POS Currency Code) must equal 049 (Original Currency Code) ('840'), got '978'"
+      });
+    });
+
+    it('should require a reason code for suspended and deleted tokens', () => {
+      const ref = field('913', 'REF');
+
+      expect(evaluate(field('923', '3') + ref).map(v => v.message)).toEqual([
+        "Field 923 (Digitization Event Type) '3' requires 924 (Digitization Event Reason Code)"
+      ]);
+      expect(evaluate(field('923', '1') + ref)).toEqual([]);
+      expect(evaluate(field('923', '5') + field('924', '01') + ref)).toEqual([]);
+    });
+
+    it('should find nothing in a consistent message', () => {
+      expect(evaluate('00206AB48DE026044577')).toEqual([]);
+    });
+  });
+
+  describe('custom rule packs', () => {
+    const pack: KLVRulePack = {
+      name: 'Acquirer',
+      rules: [
+        { id: 'visa-only', type: 'equals', key: '251', value: 'Visa', message: 'Only Visa is accepted' },
+        { id: 'no-manual', type: 'excludes', keys: ['250'], excludes: ['052'], severity: 'warning' }
+      ]
+    };
+
+    it('should apply the given packs instead of the default', () => {
+      const violations = evaluate(field('251', 'Mastercard') + field('303', '000000001000'), [pack]);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({ ruleId: 'visa-only', pack: 'Acquirer', message: 'Only Visa is accepted' });
+    });
+
+    it('should mask sensitive values in messages when asked', () => {
+      const panPack: KLVRulePack = {
+        name: 'Cards',
+        rules: [
+          { id: 'same-pan', type: 'equals', key: '254', sameAs: '916' },
+          { id: 'pan-needs-network', type: 'conditional-required', when: { key: '110', equals: ['4111111111111111'] }, requires: ['251'] }
+        ]
+      };
+      const klv = field('254', '5555555555554444') + field('916', '4111111111111111') + field('110', '4111111111111111');
+      const results = KLVParser.parse(klv).results;
+
+      expect(KLVRules.evaluate(results, [panPack], true).map(v => v.message)).toEqual([
+        "Field 254 (MDES Digitized PAN) must equal 916 (Visa Digitized PAN) ('411111******1111'), got '555555******4444'",
+        "Field 110 (Recipient Account Number) '411111******1111' requires 251 (Network)"
+      ]);
+      expect(KLVRules.evaluate(results, [panPack])[0].message).toContain("got '5555555555554444'");
+    });
+
+    it('should combine packs in order', () => {
+      const violations = evaluate(field('251', 'Mastercard') + field('303', '000000001000'), [KLVRules.defaultRulePack, pack]);
+
+      expect(violations.map(v => v.ruleId)).toEqual(['cashback-currency', 'visa-only']);
+    });
+  });
+
+  describe('loadRulePack', () => {
+    it('should load a valid pack', () => {
+      const json = JSON.stringify({
+        name: 'Issuer',
+        rules: [
+          { id: 'recurring-network', type: 'conditional-required', when: { key: '068', equals: ['Y'] }, requires: ['251'] }
+        ]
+      });
+      const { pack, errors } = KLVRules.loadRulePack(json);
+
+      expect(errors).toEqual([]);
+      expect(pack!.name).toBe('Issuer');
+      expect(evaluate(field('068', 'Y'), [pack!]).map(v => v.ruleId)).toEqual(['recurring-network']);
+    });
+
+    it('should report invalid JSON', () => {
+      const { pack, errors } = KLVRules.loadRulePack('{ not json');
+
+      expect(pack).toBeNull();
+      expect(errors[0]).toMatch(/^Invalid JSON/);
+    });
+
+    it('should describe every problem in the rules', () => {
+      const json = JSON.stringify({
+        rules: [
+          { id: 'a', type: 'requires', keys: [] },
+          { type: 'equals', key: '002' },
+          { id: 'c', type: 'matches', severity: 'fatal' },
+          'rule'
+        ]
+      });
+      const { pack, errors } = KLVRules.loadRulePack(json);
+
+      expect(pack).toBeNull();
+      expect(errors).toEqual([
+        'Rule pack needs a "name"',
+        'Rule 1 (a): "keys" must be a non-empty array of keys',
+        'Rule 1 (a): "requires" must be a non-empty array of keys',
+        'Rule 2: needs an "id"',
+        'Rule 2: "value" or "sameAs" must be a string',
+        'Rule 3 (c): unknown type "matches" (expected requires, excludes, equals, conditional-required)',
+        'Rule 3 (c): "severity" must be "error" or "warning"',
+        'Rule 4: must be an object'
+      ]);
+    });
+
+    it('should reject JSON that is not an object', () => {
+      expect(KLVRules.loadRulePack('[]').errors).toEqual(['Rule pack must be a JSON object']);
+    });
+  });
+});
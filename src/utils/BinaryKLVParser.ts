@@ -0,0 +1,470 @@
+/**
+ * Binary KLV Parser Utility
+ * Handles SMPTE ST 336M binary KLV: 16-byte Universal Label keys or
+ * local-set tags, with BER-encoded lengths
+ */
+
+import KLVParser, { KLVEntry, KLVErrorCode, KLVParseError, KLVParseResult, MISBTagDefinition } from './KLVParser';
+
+/**
+ * How keys are encoded: a 16-byte Universal Label, a fixed-size local tag,
+ * or a BER-OID encoded local tag
+ */
+export type BinaryKeyFormat = 'ul16' | 'local1' | 'local2' | 'local4' | 'berOid';
+
+export interface BinaryKLVParseOptions {
+  keyFormat?: BinaryKeyFormat;
+}
+
+interface BinaryField {
+  value: number;
+  size: number;
+}
+
+// Every SMPTE Universal Label starts with this 4-byte prefix
+const UL_PREFIX = [0x06, 0x0e, 0x2b, 0x34];
+
+const MISB_0601_UL = '060E2B34020B01010E01030101000000';
+
+const BinaryKLVParser = {
+  keyFormats: {
+    ul16: '16-byte Universal Label',
+    local1: '1-byte local tag',
+    local2: '2-byte local tag',
+    local4: '4-byte local tag',
+    berOid: 'BER-OID local tag'
+  } as Record<BinaryKeyFormat, string>,
+
+  /**
+   * Known Universal Labels, keyed by their undotted uppercase hex form
+   */
+  universalLabels: {
+    '060E2B34020B01010E01030101000000': 'UAS Datalink Local Set (MISB ST 0601)',
+    '060E2B34020301010E01030302000000': 'Security Metadata Local Set (MISB ST 0102)',
+    '060E2B34020B01010E0103010C000000': 'VMTI Local Set (MISB ST 0903)',
+    '060E2B34010101010E01020301010000': 'Security Classification'
+  } as Record<string, string>,
+
+  /**
+   * Convert hex text to bytes, ignoring whitespace
+   * @param hex - Hex string such as "06 0E 2B 34"
+   * @returns The bytes, or null if the text is not valid hex
+   */
+  hexToBytes(hex: string): Uint8Array | null {
+    const clean = hex.replace(/\s/g, '');
+    if (clean.length % 2 !== 0 || !/^[0-9A-Fa-f]*$/.test(clean)) {
+      return null;
+    }
+    const bytes = new Uint8Array(clean.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  },
+
+  /**
+   * Convert bytes to uppercase hex text
+   * @param bytes - Bytes to convert
+   * @param separator - Text placed between bytes
+   * @returns Hex string
+   */
+  bytesToHex(bytes: Uint8Array, separator: string = ''): string {
+    return Array.from(bytes, byte => byte.toString(16).toUpperCase().padStart(2, '0')).join(separator);
+  },
+
+  /**
+   * Read a BER length: short form (< 0x80) or long form (0x8N + N bytes)
+   * @param bytes - Input bytes
+   * @param pos - Offset of the length field
+   * @returns Decoded length and the number of bytes it used, or null if invalid or truncated
+   */
+  readBERLength(bytes: Uint8Array, pos: number): BinaryField | null {
+    if (pos >= bytes.length) {
+      return null;
+    }
+    const first = bytes[pos];
+    if (first < 0x80) {
+      return { value: first, size: 1 };
+    }
+
+    // Indefinite (0x80) and lengths beyond 32 bits are not supported
+    const count = first & 0x7f;
+    if (count === 0 || count > 4 || pos + 1 + count > bytes.length) {
+      return null;
+    }
+    let value = 0;
+    for (let i = 1; i <= count; i++) {
+      value = value * 256 + bytes[pos + i];
+    }
+    return { value, size: 1 + count };
+  },
+
+  /**
+   * Read a BER-OID value: 7 bits per byte, high bit set on all but the last byte
+   * @param bytes - Input bytes
+   * @param pos - Offset of the encoded value
+   * @returns Decoded value and the number of bytes it used, or null if invalid or truncated
+   */
+  readBEROID(bytes: Uint8Array, pos: number): BinaryField | null {
+    let value = 0;
+    for (let size = 1; size <= 4 && pos + size <= bytes.length; size++) {
+      const byte = bytes[pos + size - 1];
+      value = value * 128 + (byte & 0x7f);
+      if ((byte & 0x80) === 0) {
+        return { value, size };
+      }
+    }
+    return null;
+  },
+
+  /**
+   * Read a key in the given format
+   * @param bytes - Input bytes
+   * @param pos - Offset of the key
+   * @param keyFormat - How the key is encoded
+   * @returns The key as display text and the number of bytes it used, or null if truncated
+   */
+  readKey(bytes: Uint8Array, pos: number, keyFormat: BinaryKeyFormat): { key: string; size: number } | null {
+    if (keyFormat === 'ul16') {
+      if (pos + 16 > bytes.length) {
+        return null;
+      }
+      return { key: BinaryKLVParser.bytesToHex(bytes.subarray(pos, pos + 16), '.'), size: 16 };
+    }
+
+    if (keyFormat === 'berOid') {
+      const tag = BinaryKLVParser.readBEROID(bytes, pos);
+      return tag ? { key: tag.value.toString(), size: tag.size } : null;
+    }
+
+    const size = keyFormat === 'local1' ? 1 : keyFormat === 'local2' ? 2 : 4;
+    if (pos + size > bytes.length) {
+      return null;
+    }
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value = value * 256 + bytes[pos + i];
+    }
+    return { key: value.toString(), size };
+  },
+
+  /**
+   * Check that a Universal Label starts at the given offset
+   * @param bytes - Input bytes
+   * @param pos - Offset of the key
+   * @returns True if the SMPTE label prefix is present
+   */
+  hasULPrefix(bytes: Uint8Array, pos: number): boolean {
+    return UL_PREFIX.every((byte, i) => bytes[pos + i] === byte);
+  },
+
+  /**
+   * Look up the name of a Universal Label
+   * @param key - Dotted hex UL
+   * @returns The label name, or 'Unknown'
+   */
+  getName(key: string): string {
+    return BinaryKLVParser.universalLabels[key.replace(/\./g, '')] || 'Unknown';
+  },
+
+  /**
+   * Read a big-endian unsigned integer (up to 53 bits survive exactly)
+   * @param bytes - Input bytes
+   * @param start - Offset of the first byte
+   * @param end - Offset just past the last byte
+   * @returns The integer value
+   */
+  readUnsigned(bytes: Uint8Array, start: number, end: number): number {
+    let value = 0;
+    for (let i = start; i < end; i++) {
+      value = value * 256 + bytes[i];
+    }
+    return value;
+  },
+
+  /**
+   * Check that a MISB ST 0601 value has the size its tag defines. Numbers
+   * need at least one byte even when the tag has no fixed size.
+   * @param value - The tag's value bytes
+   * @param definition - The tag definition
+   * @returns True if the value can be decoded
+   */
+  hasMISBSize(value: Uint8Array, definition: MISBTagDefinition): boolean {
+    if (definition.type === 'string' || definition.type === 'bytes') {
+      return true;
+    }
+    return definition.size ? value.length === definition.size : value.length > 0;
+  },
+
+  /**
+   * Decode a MISB ST 0601 tag value into display text
+   * @param value - The tag's value bytes
+   * @param definition - The tag definition
+   * @returns Decoded text, or undefined for opaque values, values of the
+   * wrong size and out-of-range timestamps
+   */
+  decodeMISBValue(value: Uint8Array, definition: MISBTagDefinition): string | undefined {
+    if (!BinaryKLVParser.hasMISBSize(value, definition)) {
+      return undefined;
+    }
+    const bits = value.length * 8;
+    const raw = BinaryKLVParser.readUnsigned(value, 0, value.length);
+    const format = (n: number) => `${parseFloat(n.toFixed(6))}${definition.units || ''}`;
+
+    switch (definition.type) {
+      case 'string':
+        return Array.from(value, byte => String.fromCharCode(byte)).join('');
+      case 'timestamp': {
+        // Microseconds since the Unix epoch; counts beyond what Date holds can't be shown
+        const date = new Date(raw / 1000);
+        return isFinite(date.getTime()) ? date.toISOString() : undefined;
+      }
+      case 'checksum':
+        return `0x${raw.toString(16).toUpperCase().padStart(4, '0')}`;
+      case 'uint': {
+        if (!definition.range) {
+          return raw.toString();
+        }
+        const [min, max] = definition.range;
+        return format(raw * (max - min) / (Math.pow(2, bits) - 1) + min);
+      }
+      case 'int': {
+        const signed = raw >= Math.pow(2, bits - 1) ? raw - Math.pow(2, bits) : raw;
+        // The most negative value is reserved as the "out of range" indicator
+        if (signed === -Math.pow(2, bits - 1)) {
+          return 'Out of range';
+        }
+        if (!definition.range) {
+          return signed.toString();
+        }
+        const [min, max] = definition.range;
+        return format(signed * (max - min) / (Math.pow(2, bits) - 2));
+      }
+      default:
+        return undefined;
+    }
+  },
+
+  /**
+   * Compute the MISB ST 0601 running 16-bit checksum: bytes are summed as
+   * big-endian 16-bit words from the start of the UL up to and including
+   * the checksum tag's length byte
+   * @param bytes - Input bytes
+   * @param start - Offset of the packet's UL
+   * @param end - Offset of the checksum value
+   * @returns The 16-bit checksum
+   */
+  computeMISBChecksum(bytes: Uint8Array, start: number, end: number): number {
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += bytes[i] << (8 * ((i - start + 1) % 2));
+    }
+    return sum & 0xffff;
+  },
+
+  /**
+   * Decode the local set inside a MISB ST 0601 packet into one entry per tag
+   * and verify the tag 1 checksum
+   * @param bytes - Input bytes
+   * @param packetStart - Offset of the packet's UL
+   * @param valStart - Offset of the local set
+   * @param valEnd - Offset just past the local set
+   * @returns Tag entries and any decoding or checksum errors
+   */
+  decodeMISB0601(bytes: Uint8Array, packetStart: number, valStart: number, valEnd: number): KLVParseResult {
+    const results: KLVEntry[] = [];
+    const errors: KLVParseError[] = [];
+    const localSet = bytes.subarray(0, valEnd);
+    let pos = valStart;
+
+    while (pos < valEnd) {
+      const tag = BinaryKLVParser.readBEROID(localSet, pos);
+      const length = tag ? BinaryKLVParser.readBERLength(localSet, pos + tag.size) : null;
+      const tagValStart = tag && length ? pos + tag.size + length.size : valEnd;
+      if (!tag || !length || tagValStart + length.value > valEnd) {
+        errors.push({
+          code: KLVErrorCode.TRUNCATED_VALUE,
+          message: `Incomplete MISB ST 0601 tag at byte ${pos}`,
+          start: pos,
+          end: valEnd,
+          severity: 'error',
+          key: tag ? tag.value.toString() : undefined
+        });
+        break;
+      }
+
+      const tagValEnd = tagValStart + length.value;
+      const value = bytes.subarray(tagValStart, tagValEnd);
+      const definition = KLVParser.misb0601Definitions[tag.value];
+      const entry: KLVEntry = {
+        key: tag.value.toString(),
+        len: length.value,
+        value: BinaryKLVParser.bytesToHex(value),
+        pos,
+        name: definition ? definition.name : 'Unknown'
+      };
+
+      const decoded = definition && BinaryKLVParser.decodeMISBValue(value, definition);
+      if (decoded !== undefined) {
+        entry.formattedValue = decoded;
+      } else if (definition && !BinaryKLVParser.hasMISBSize(value, definition)) {
+        // Left as hex rather than decoded into a meaningless number
+        errors.push({
+          code: KLVErrorCode.INVALID_FIELD_LENGTH,
+          message: `${definition.name} at byte ${tagValStart} is ${value.length} bytes, expected ${definition.size || 'at least 1'}`,
+          start: tagValStart,
+          end: tagValEnd,
+          severity: 'warning',
+          key: entry.key
+        });
+      } else if (definition && definition.type === 'timestamp') {
+        errors.push({
+          code: KLVErrorCode.INVALID_FIELD_VALUE,
+          message: `Time stamp at byte ${tagValStart} is outside the supported date range`,
+          start: tagValStart,
+          end: tagValEnd,
+          severity: 'warning',
+          key: entry.key
+        });
+      }
+
+      if (tag.value === 1) {
+        const expected = BinaryKLVParser.computeMISBChecksum(bytes, packetStart, tagValStart);
+        const actual = BinaryKLVParser.readUnsigned(bytes, tagValStart, tagValEnd);
+        if (expected !== actual) {
+          errors.push({
+            code: KLVErrorCode.CHECKSUM_MISMATCH,
+            message: `Checksum mismatch at byte ${tagValStart}: expected 0x${expected.toString(16).toUpperCase().padStart(4, '0')}`,
+            start: tagValStart,
+            end: tagValEnd,
+            severity: 'error',
+            key: entry.key
+          });
+        }
+      }
+
+      results.push(entry);
+      pos = tagValEnd;
+    }
+
+    return { results, errors };
+  },
+
+  /**
+   * Parse binary KLV into entries. Keys are shown as dotted hex (ULs) or
+   * decimal tag numbers, values as hex, and positions are byte offsets.
+   * @param bytes - The binary KLV data
+   * @param options - Parse options (key format)
+   * @returns Object containing results and errors
+   */
+  parse(bytes: Uint8Array, options: BinaryKLVParseOptions = {}): KLVParseResult {
+    const keyFormat = options.keyFormat || 'ul16';
+    const results: KLVEntry[] = [];
+    const errors: KLVParseError[] = [];
+    let pos = 0;
+
+    while (pos < bytes.length) {
+      const keyField = BinaryKLVParser.readKey(bytes, pos, keyFormat);
+      if (!keyField) {
+        errors.push({
+          code: KLVErrorCode.TRUNCATED_HEADER,
+          message: `Incomplete key at byte ${pos}`,
+          start: pos,
+          end: bytes.length,
+          severity: 'error'
+        });
+        break;
+      }
+
+      const { key } = keyField;
+      if (keyFormat === 'ul16' && !BinaryKLVParser.hasULPrefix(bytes, pos)) {
+        errors.push({
+          code: KLVErrorCode.INVALID_KEY,
+          message: `Invalid Universal Label at byte ${pos}`,
+          start: pos,
+          end: pos + keyField.size,
+          severity: 'error'
+        });
+        break;
+      }
+
+      const lenPos = pos + keyField.size;
+      const length = BinaryKLVParser.readBERLength(bytes, lenPos);
+      if (!length) {
+        errors.push({
+          code: KLVErrorCode.INVALID_LENGTH,
+          message: `Invalid BER length at byte ${lenPos}`,
+          start: lenPos,
+          end: bytes.length,
+          severity: 'error',
+          key
+        });
+        break;
+      }
+
+      const valStart = lenPos + length.size;
+      const valEnd = valStart + length.value;
+      if (valEnd > bytes.length) {
+        errors.push({
+          code: KLVErrorCode.TRUNCATED_VALUE,
+          message: `Incomplete value at byte ${valStart}`,
+          start: valStart,
+          end: bytes.length,
+          severity: 'error',
+          key
+        });
+        break;
+      }
+
+      // MISB ST 0601 packets are expanded into their local set tags
+      if (keyFormat === 'ul16' && key.replace(/\./g, '') === MISB_0601_UL) {
+        const decoded = BinaryKLVParser.decodeMISB0601(bytes, pos, valStart, valEnd);
+        results.push(...decoded.results);
+        errors.push(...decoded.errors);
+        pos = valEnd;
+        continue;
+      }
+
+      results.push({
+        key,
+        len: length.value,
+        value: BinaryKLVParser.bytesToHex(bytes.subarray(valStart, valEnd)),
+        pos,
+        name: keyFormat === 'ul16' ? BinaryKLVParser.getName(key) : 'Unknown'
+      });
+      pos = valEnd;
+    }
+
+    return { results, errors };
+  },
+
+  /**
+   * Parse binary KLV given as hex text
+   * @param hex - Hex text, whitespace allowed
+   * @param options - Parse options (key format)
+   * @returns Object containing results and errors
+   */
+  parseHex(hex: string, options: BinaryKLVParseOptions = {}): KLVParseResult {
+    const bytes = BinaryKLVParser.hexToBytes(hex);
+    if (!bytes) {
+      const clean = hex.replace(/\s/g, '');
+      const badChar = clean.search(/[^0-9A-Fa-f]/);
+      const start = badChar === -1 ? clean.length - 1 : badChar;
+      return {
+        results: [],
+        errors: [{
+          code: KLVErrorCode.INVALID_HEX,
+          message: badChar === -1
+            ? 'Hex input has an odd number of digits'
+            : `Invalid hex character at position ${badChar}`,
+          start,
+          end: start + 1,
+          severity: 'error'
+        }]
+      };
+    }
+    return BinaryKLVParser.parse(bytes, options);
+  }
+};
+
+export default BinaryKLVParser;
@@ -3,30 +3,337 @@
  * Handles parsing and validation of Key-Length-Value data format
  */
 
+import { CardBrand, cardBrands } from './cardBrands';
+import { CountryInfo, countryMapping } from './countries';
+import { MCCGroup, mccGroups, mccMapping, mccRanges } from './mcc';
+import { MessageProfile, MessageProfileId, messageProfiles } from './profiles';
+
+/**
+ * Location of a span in the original input, before whitespace was stripped
+ */
+export interface KLVSourceSpan {
+  offset: number;
+  /** Offset just past the span (exclusive) */
+  endOffset: number;
+  /** 1-based line of `offset` */
+  line: number;
+  /** 1-based column of `offset` */
+  column: number;
+}
+
+export interface KLVCountryInfo extends CountryInfo {
+  numeric: string;
+}
+
+export interface KLVMCCInfo {
+  code: string;
+  description: string;
+  group: MCCGroup;
+  groupLabel: string;
+  highRisk: boolean;
+}
+
+export interface KLVPANInfo {
+  /** Brand identified from the leading digits, or null if none matches */
+  brand: string | null;
+  /** Result of the Luhn check; null when the PAN is masked */
+  luhnValid: boolean | null;
+  /** Whether the brand issues PANs of this length (12-19 digits for unknown brands) */
+  lengthValid: boolean;
+  /** Brand implied by the field or by the message's digitized PAN */
+  expectedBrand?: string;
+  /** False when the PAN's brand differs from the expected brand */
+  brandValid: boolean;
+}
+
 export interface KLVEntry {
   key: string;
   len: number;
   value: string;
+  /** Offset of the entry in the cleaned (whitespace-free) input */
   pos: number;
   name: string;
+  /** Where the entry sits in the original input */
+  source?: KLVSourceSpan;
   formattedValue?: string;
   currencyInfo?: {
     code: string;
     name: string;
     flag: string;
   };
+  countryInfo?: KLVCountryInfo;
+  mccInfo?: KLVMCCInfo;
+  /** Luhn, length and brand checks for PAN-bearing fields */
+  panInfo?: KLVPANInfo;
+  /** For 253: whether it matches the last four digits of the full PAN in the message */
+  lastFourMatch?: boolean;
+  /** Set on every occurrence of a key after the first */
+  duplicate?: boolean;
+  /** Conversion rate (010) applied to the original amount (004) */
+  conversionInfo?: {
+    rate: number;
+    /** The formatted original amount, e.g. 'USD 500.10' */
+    originalAmount: string;
+    /** Converted amount in the cardholder billing currency */
+    convertedAmount: string;
+  };
+  /** Sub-elements decoded from the value of a composite field */
+  children?: KLVEntry[];
+}
+
+export enum KLVErrorCode {
+  INVALID_KEY = 'INVALID_KEY',
+  INVALID_LENGTH = 'INVALID_LENGTH',
+  TRUNCATED_VALUE = 'TRUNCATED_VALUE',
+  TRUNCATED_HEADER = 'TRUNCATED_HEADER',
+  INVALID_HEX = 'INVALID_HEX',
+  CHECKSUM_MISMATCH = 'CHECKSUM_MISMATCH',
+  INVALID_FIELD_TYPE = 'INVALID_FIELD_TYPE',
+  INVALID_FIELD_LENGTH = 'INVALID_FIELD_LENGTH',
+  INVALID_FIELD_FORMAT = 'INVALID_FIELD_FORMAT',
+  INVALID_FIELD_VALUE = 'INVALID_FIELD_VALUE',
+  INVALID_FIELD_DATE = 'INVALID_FIELD_DATE',
+  EXPIRED_DATE = 'EXPIRED_DATE',
+  INVALID_PAN = 'INVALID_PAN',
+  PAN_MISMATCH = 'PAN_MISMATCH',
+  DUPLICATE_KEY = 'DUPLICATE_KEY',
+  EMPTY_VALUE = 'EMPTY_VALUE',
+  INVALID_ENCODING = 'INVALID_ENCODING',
+  WHITESPACE_IN_VALUE = 'WHITESPACE_IN_VALUE'
+}
+
+/**
+ * 'error' makes the message invalid: a framing problem, which stops parsing,
+ * or a repeated key in 'error' duplicate mode. 'warning' leaves the entries
+ * readable: a range skipped in recovery mode, or a value that breaks its
+ * field schema.
+ */
+export type KLVErrorSeverity = 'error' | 'warning';
+
+export interface KLVParseError {
+  code: KLVErrorCode;
+  message: string;
+  /** Start offset of the offending data in the cleaned input */
+  start: number;
+  /** End offset (exclusive); for recovered errors, the end of the skipped range */
+  end: number;
+  severity: KLVErrorSeverity;
+  /** Key of the entry the error belongs to, if it could be read */
+  key?: string;
+  /** Where the offending data sits in the original input */
+  source?: KLVSourceSpan;
 }
 
 export interface KLVParseResult {
   results: KLVEntry[];
-  errors: string[];
+  errors: KLVParseError[];
 }
 
 export interface KLVValidationResult {
+  /** True when the input is well framed; field warnings don't affect it */
   isValid: boolean;
   entriesCount: number;
-  errors: string[];
+  errors: KLVParseError[];
+  /** Field-level schema violations in otherwise well-framed entries */
+  warnings: KLVParseError[];
   totalLength: number;
+  /** How the message compares to the requested profile */
+  profile?: KLVProfileResult;
+}
+
+export interface KLVProfileResult {
+  profile: MessageProfileId;
+  /** True when no key is missing, forbidden, unexpected or out of order */
+  conforms: boolean;
+  /** Required keys the message lacks */
+  missing: string[];
+  /** Forbidden keys the message carries */
+  forbidden: string[];
+  /** Keys the profile doesn't list at all */
+  unexpected: string[];
+  /** Keys that appear before a key the profile orders ahead of them */
+  outOfOrder: string[];
+}
+
+/**
+ * A key that differs between two messages. Repeated keys are matched by
+ * occurrence, so the second 002 in one message pairs with the second 002
+ * in the other.
+ */
+export interface KLVDiffEntry {
+  key: string;
+  name: string;
+  /** Which occurrence of the key this is, counting from 0 */
+  occurrence: number;
+  /** Value and entry index in the first message; absent for added keys */
+  oldValue?: string;
+  oldIndex?: number;
+  /** Value and entry index in the second message; absent for removed keys */
+  newValue?: string;
+  newIndex?: number;
+}
+
+export interface KLVDiffResult {
+  /** Keys only in the second message */
+  added: KLVDiffEntry[];
+  /** Keys only in the first message */
+  removed: KLVDiffEntry[];
+  /** Keys in both messages with different values */
+  changed: KLVDiffEntry[];
+  /** Keys in both messages that moved relative to the others */
+  reordered: KLVDiffEntry[];
+  /** True when all four lists are empty */
+  identical: boolean;
+}
+
+export interface KLVMessageDiffResult extends KLVDiffResult {
+  /** Parsing errors in each message; a message with any is never identical */
+  errors: { a: KLVParseError[]; b: KLVParseError[] };
+}
+
+/**
+ * How a MISB ST 0601 tag value is encoded. 'uint' and 'int' values with a
+ * range are fixed-point: the raw integer is mapped linearly onto the range.
+ */
+export type MISBValueType = 'string' | 'uint' | 'int' | 'timestamp' | 'checksum' | 'bytes';
+
+export interface MISBTagDefinition {
+  name: string;
+  type: MISBValueType;
+  range?: [number, number];
+  units?: string;
+  /** Bytes a numeric, timestamp or checksum value takes */
+  size?: number;
+}
+
+export type KLVLengthEncoding = 'decimal' | 'hex';
+
+/**
+ * Framing rules for a KLV feed: how many characters the key and length
+ * take, and how the length digits are encoded
+ */
+export interface KLVDialect {
+  name: string;
+  keyWidth: number;
+  lengthWidth: number;
+  lengthEncoding: KLVLengthEncoding;
+}
+
+export type KLVDialectId = 'standard' | 'tag2' | 'lll' | 'hexLength';
+
+export interface KLVSubfield {
+  name: string;
+  /** Width in characters; omit on the last subfield to take the rest of the value */
+  length?: number;
+}
+
+/**
+ * How the value of a composite field breaks down into sub-elements:
+ * - 'positional': fixed-width subfields in order
+ * - 'klv': nested KLV framed with its own dialect
+ * - 'tlv': hex-encoded BER-TLV (EMV style tags and lengths)
+ */
+export type KLVChildLayout =
+  | { type: 'positional'; fields: KLVSubfield[] }
+  | { type: 'klv'; dialect: KLVDialect; names?: Record<string, string> }
+  | { type: 'tlv'; names?: Record<string, string> };
+
+/**
+ * What a repeated key means: keep the first or last value, treat the
+ * repeat as an error, or collect every value into an array
+ */
+export type KLVDuplicateMode = 'first' | 'last' | 'error' | 'array';
+
+/**
+ * Why a field must not be shown in clear: 'pan' for card and account
+ * numbers, 'auth' for PIN blocks and one-time passwords, 'pii' for
+ * personal data about the sender or recipient
+ */
+export type KLVSensitivity = 'pan' | 'auth' | 'pii';
+
+/**
+ * How PCI-safe mode removes card and PIN material: 'strip' drops the
+ * entries, 'tokenise' replaces their values with same-length tokens
+ */
+export type KLVRedactionPolicy = 'strip' | 'tokenise';
+
+/**
+ * What a length field counts: UTF-16 code units (JavaScript string
+ * length), Unicode code points, UTF-8 bytes or single-byte Latin-1 bytes
+ */
+export type KLVLengthUnit = 'utf16' | 'codePoint' | 'utf8' | 'latin1';
+
+/**
+ * ISO 8583 style data types:
+ * - 'n': digits
+ * - 'an': letters and digits
+ * - 'ans': printable ASCII except the space, since parsing strips whitespace
+ * - 'b': binary data as hex, in whole bytes
+ * - 'hex': hex digits
+ */
+export type KLVFieldType = 'n' | 'an' | 'ans' | 'b' | 'hex';
+
+/**
+ * Date layouts. Two-digit years are in the 2000s; YYMM is a card-style
+ * month that runs to the end of the month.
+ */
+export type KLVDateFormat = 'YYYYMMDD' | 'YYMM' | 'YYYYMMDDhhmmss';
+
+export interface KLVDate {
+  /** Start of the date's period */
+  date: Date;
+  /** End of the period (exclusive): the next day, month or second */
+  end: Date;
+  /** ISO 8601 rendering: 2026-10-19, 2026-10 or 2026-10-19T12:30:00Z */
+  iso: string;
+}
+
+/**
+ * Structural description of a field beyond its name. A fixed-length field
+ * has equal minLength and maxLength.
+ */
+export interface KLVFieldSchema {
+  type?: KLVFieldType;
+  minLength?: number;
+  maxLength?: number;
+  /** Extra constraint on the whole value, checked after the type */
+  pattern?: RegExp;
+  /** Allowed codes and their meanings; other values are flagged */
+  enumeration?: Record<string, string>;
+  /** Date layout; expiry dates are also checked against the "as of" date */
+  date?: { format: KLVDateFormat; expiry?: boolean };
+  children?: KLVChildLayout;
+}
+
+export interface KLVParseOptions {
+  /**
+   * Keep parsing after a malformed entry by skipping ahead to the next
+   * plausible header instead of stopping at the first error
+   */
+  recover?: boolean;
+  /** Framing rules to parse with (defaults to the standard KKKLL dialect) */
+  dialect?: KLVDialect;
+  /** Reference date for expiry checks in validate (defaults to now) */
+  asOf?: Date;
+  /** Message profile to check the keys against in validate */
+  profile?: MessageProfileId;
+  /** In 'error' mode, every repeated key is reported as a DUPLICATE_KEY error */
+  duplicates?: KLVDuplicateMode;
+  /** What the length field counts (defaults to UTF-16 code units) */
+  lengthUnit?: KLVLengthUnit;
+}
+
+export interface KLVBuildOptions {
+  dialect?: KLVDialect;
+  /**
+   * Report empty values and schema violations (defaults to true); keys and
+   * lengths that can't be framed are always reported
+   */
+  checkValues?: boolean;
+  /** What the length field counts (defaults to UTF-16 code units) */
+  lengthUnit?: KLVLengthUnit;
+  /** Reference date for expiry checks (defaults to now) */
+  asOf?: Date;
 }
 
 export interface KLVBuildEntry {
@@ -34,7 +341,318 @@ export interface KLVBuildEntry {
   value: string;
 }
 
-type ExportFormat = 'json' | 'csv' | 'table';
+export interface KLVBuildError {
+  /** Position of the offending entry in the list passed to build */
+  index: number;
+  key: string;
+  code: KLVErrorCode;
+  message: string;
+}
+
+export interface KLVBuildResult {
+  /** The framed entries; empty when any entry has an error */
+  klv: string;
+  errors: KLVBuildError[];
+  /** Expiry and card number checks, which don't stop the build */
+  warnings: KLVBuildError[];
+}
+
+interface KLVPatchOperationBase {
+  key: string;
+  /** Which occurrence of a repeated key to change, counting from 0 (defaults to the first) */
+  occurrence?: number;
+}
+
+/**
+ * Replace the value of a key, or append the key if that occurrence
+ * would be the next one
+ */
+export interface KLVSetOperation extends KLVPatchOperationBase {
+  op: 'set';
+  value: string;
+}
+
+export interface KLVRemoveOperation extends KLVPatchOperationBase {
+  op: 'remove';
+}
+
+export interface KLVRenameOperation extends KLVPatchOperationBase {
+  op: 'rename';
+  to: string;
+}
+
+/**
+ * Move an entry to `index`, counting from 0 in the message without it
+ */
+export interface KLVMoveOperation extends KLVPatchOperationBase {
+  op: 'move';
+  index: number;
+}
+
+/**
+ * Plain objects, so a list of operations can be saved as JSON and applied again
+ */
+export type KLVPatchOperation = KLVSetOperation | KLVRemoveOperation | KLVRenameOperation | KLVMoveOperation;
+
+export interface KLVPatchOptions {
+  dialect?: KLVDialect;
+  /** What the length fields count (defaults to UTF-16 code units) */
+  lengthUnit?: KLVLengthUnit;
+}
+
+export interface KLVPatchResult {
+  /** The patched message, or null if the input or any operation is invalid */
+  klv: string | null;
+  errors: string[];
+}
+
+export interface KLVPatchLoadResult {
+  operations: KLVPatchOperation[] | null;
+  errors: string[];
+}
+
+type ExportFormat = 'json' | 'csv' | 'table' | 'klv';
+
+export interface KLVExportOptions {
+  /** Dialect used to re-frame entries for the 'klv' format */
+  dialect?: KLVDialect;
+  /** Length unit used to re-frame entries for the 'klv' format */
+  lengthUnit?: KLVLengthUnit;
+  /** Mask sensitive values in every format */
+  mask?: boolean;
+}
+
+const DIALECTS: Record<KLVDialectId, KLVDialect> = {
+  standard: { name: 'Standard (KKK LL)', keyWidth: 3, lengthWidth: 2, lengthEncoding: 'decimal' },
+  tag2: { name: '2-digit tag (KK LL)', keyWidth: 2, lengthWidth: 2, lengthEncoding: 'decimal' },
+  lll: { name: '3-digit length (KKK LLL)', keyWidth: 3, lengthWidth: 3, lengthEncoding: 'decimal' },
+  hexLength: { name: 'Hex length (KKK LL hex)', keyWidth: 3, lengthWidth: 2, lengthEncoding: 'hex' }
+};
+
+const LENGTH_UNITS: Record<KLVLengthUnit, string> = {
+  utf16: 'UTF-16 code units',
+  codePoint: 'Code points',
+  utf8: 'UTF-8 bytes',
+  latin1: 'Latin-1 bytes'
+};
+
+/**
+ * How many length units a code point takes
+ */
+const unitWidth = (codePoint: number, unit: KLVLengthUnit): number => {
+  switch (unit) {
+    case 'utf16':
+      return codePoint > 0xffff ? 2 : 1;
+    case 'utf8':
+      return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    default:
+      return 1;
+  }
+};
+
+/**
+ * Read whole characters from `start` until `length` units are covered or
+ * the text runs out. The units covered overshoot `length` when it ends
+ * inside a character.
+ */
+const scanUnits = (text: string, start: number, length: number, unit: KLVLengthUnit): { end: number; units: number } => {
+  // UTF-16 units are string offsets, so a length may split a surrogate pair
+  if (unit === 'utf16') {
+    const end = Math.min(start + length, text.length);
+    return { end, units: end - start };
+  }
+  let end = start;
+  let units = 0;
+  while (units < length && end < text.length) {
+    const codePoint = text.codePointAt(end) as number;
+    units += unitWidth(codePoint, unit);
+    end += codePoint > 0xffff ? 2 : 1;
+  }
+  return { end, units };
+};
+
+const PATCH_OPS: KLVPatchOperation['op'][] = ['set', 'remove', 'rename', 'move'];
+
+const isIndex = (value: unknown): boolean => typeof value === 'number' && value >= 0 && Math.floor(value) === value;
+
+/**
+ * Check the fields an operation of its type needs
+ * @returns A description of each problem, prefixed with the operation's position
+ */
+const checkOperationShape = (operation: unknown, position: number): string[] => {
+  if (!operation || typeof operation !== 'object' || Array.isArray(operation)) {
+    return [`Operation ${position}: must be an object`];
+  }
+  const op = operation as Record<string, unknown>;
+  const label = `Operation ${position}${typeof op.op === 'string' && typeof op.key === 'string' ? ` (${op.op} ${op.key})` : ''}`;
+  const errors: string[] = [];
+
+  if (typeof op.key !== 'string' || !/^\d+$/.test(op.key)) {
+    errors.push(`${label}: "key" must be a string of digits`);
+  }
+  if (op.occurrence !== undefined && !isIndex(op.occurrence)) {
+    errors.push(`${label}: "occurrence" must be a whole number from 0`);
+  }
+  switch (op.op) {
+    case 'set':
+      if (typeof op.value !== 'string') {
+        errors.push(`${label}: "value" must be a string`);
+      }
+      break;
+    case 'remove':
+      break;
+    case 'rename':
+      if (typeof op.to !== 'string' || !/^\d+$/.test(op.to)) {
+        errors.push(`${label}: "to" must be a string of digits`);
+      }
+      break;
+    case 'move':
+      if (!isIndex(op.index)) {
+        errors.push(`${label}: "index" must be a whole number from 0`);
+      }
+      break;
+    default:
+      errors.push(`${label}: unknown op ${JSON.stringify(op.op)} (expected ${PATCH_OPS.join(', ')})`);
+  }
+  return errors;
+};
+
+// An old or test message can fail these and still be worth rebuilding
+const BUILD_WARNING_CODES = [KLVErrorCode.EXPIRED_DATE, KLVErrorCode.INVALID_PAN, KLVErrorCode.PAN_MISMATCH];
+
+const FIELD_TYPES: Record<KLVFieldType, { pattern: RegExp; description: string }> = {
+  n: { pattern: /^\d*$/, description: 'numeric' },
+  an: { pattern: /^[A-Za-z0-9]*$/, description: 'alphanumeric' },
+  ans: { pattern: /^[\x21-\x7E]*$/, description: 'printable ASCII without spaces' },
+  b: { pattern: /^(?:[0-9A-Fa-f]{2})*$/, description: 'hex-encoded bytes' },
+  hex: { pattern: /^[0-9A-Fa-f]*$/, description: 'hexadecimal' }
+};
+
+/**
+ * Split a hex string into BER-TLV elements. Tags continue while the low
+ * five bits of the first byte are set and then while bit 8 is set; lengths
+ * use the BER short or long form. Offsets and lengths are in hex characters.
+ * @returns The elements, or null if the data is not well-formed TLV
+ */
+const splitTLV = (hex: string): { tag: string; len: number; value: string; offset: number }[] | null => {
+  if (!/^([0-9A-Fa-f]{2})*$/.test(hex)) {
+    return null;
+  }
+  const byteAt = (i: number) => parseInt(hex.substr(i * 2, 2), 16);
+  const byteCount = hex.length / 2;
+  const elements: { tag: string; len: number; value: string; offset: number }[] = [];
+  let i = 0;
+
+  while (i < byteCount) {
+    const start = i;
+    if ((byteAt(i++) & 0x1f) === 0x1f) {
+      while (i < byteCount && byteAt(i) & 0x80) {
+        i++;
+      }
+      i++;
+    }
+    if (i >= byteCount) {
+      return null;
+    }
+    const tag = hex.substring(start * 2, i * 2).toUpperCase();
+
+    let len = byteAt(i++);
+    if (len & 0x80) {
+      const size = len & 0x7f;
+      if (size === 0 || size > 4 || i + size > byteCount) {
+        return null;
+      }
+      len = 0;
+      for (let j = 0; j < size; j++) {
+        len = len * 256 + byteAt(i++);
+      }
+    }
+    if (i + len > byteCount) {
+      return null;
+    }
+
+    elements.push({ tag, len, value: hex.substring(i * 2, (i + len) * 2), offset: start * 2 });
+    i += len;
+  }
+
+  return elements;
+};
+
+/**
+ * Sensitivity classes in PCI DSS scope, which PCI-safe mode redacts
+ */
+const PCI_SCOPE: KLVSensitivity[] = ['pan', 'auth'];
+
+/**
+ * Random per-session salt for tokens, so a token can't be reversed by
+ * hashing candidate card numbers or matched across sessions
+ */
+const TOKEN_SALT = Math.floor(Math.random() * 0x100000000);
+
+/**
+ * One FNV-1a step over a 32-bit hash
+ */
+const fnv1a = (hash: number, code: number): number => Math.imul(hash ^ code, 16777619) >>> 0;
+
+/**
+ * Mask an entry's value, formatted value and subfields. Subfields take
+ * the parent's classification since they hold parts of its value.
+ */
+const maskWith = (entry: KLVEntry, sensitivity: KLVSensitivity): KLVEntry => ({
+  ...entry,
+  value: KLVParser.maskValue(entry.value, sensitivity),
+  formattedValue: entry.formattedValue && KLVParser.maskValue(entry.formattedValue, sensitivity),
+  children: entry.children && entry.children.map(child => maskWith(child, sensitivity))
+});
+
+/**
+ * Strip whitespace from the input while remembering where each remaining
+ * character came from, so offsets in the cleaned string can be mapped back
+ */
+const createSourceMap = (input: string) => {
+  const offsets: number[] = [];
+  const lineStarts: number[] = [0];
+  let clean = '';
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === '\n') {
+      lineStarts.push(i + 1);
+    }
+    if (!/\s/.test(ch)) {
+      offsets.push(i);
+      clean += ch;
+    }
+  }
+
+  const toOriginal = (cleanOffset: number): number => {
+    if (cleanOffset < offsets.length) {
+      return offsets[cleanOffset];
+    }
+    return offsets.length > 0 ? offsets[offsets.length - 1] + 1 : 0;
+  };
+
+  const span = (start: number, end: number): KLVSourceSpan => {
+    const offset = toOriginal(start);
+    const endOffset = end > start ? toOriginal(end - 1) + 1 : offset;
+
+    // Binary search for the last line starting at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return { offset, endOffset, line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  return { clean, span };
+};
 
 const KLVParser = {
   // Complete KLV definitions
@@ -152,168 +770,1029 @@ const KLVParser = {
   } as const,
 
   /**
-   * ISO 4217 Currency Codes mapping to currency names and country flags
+   * Sensitivity classification per key, keyed like the definitions.
+   * Unlisted keys are safe to display.
+   */
+  sensitivity: {
+    '052': 'auth',
+    '108': 'pii',
+    '109': 'pii',
+    '110': 'pan',
+    '254': 'pan',
+    '260': 'pii',
+    '400': 'pii',
+    '401': 'pii',
+    '409': 'pii',
+    '410': 'pii',
+    '412': 'pan',
+    '420': 'pii',
+    '421': 'pii',
+    '900': 'auth',
+    '912': 'pan',
+    '916': 'pan',
+    '934': 'auth'
+  } as Record<string, KLVSensitivity>,
+
+  /**
+   * Data type, length bounds and structure per key, keyed like the
+   * definitions. Keys without a schema accept any value.
+   */
+  schemas: {
+    '002': { type: 'an', minLength: 1, maxLength: 32 },
+    '004': { type: 'n', minLength: 1, maxLength: 12 },
+    '010': { type: 'n', minLength: 8, maxLength: 8 },
+    '026': { type: 'n', minLength: 4, maxLength: 4 },
+    '032': { type: 'n', minLength: 1, maxLength: 11 },
+    '037': { type: 'an', minLength: 12, maxLength: 12 },
+    '041': { type: 'ans', minLength: 1, maxLength: 8 },
+    '042': { type: 'ans', minLength: 1, maxLength: 15 },
+    '043': { type: 'ans', maxLength: 99 },
+    '044': { type: 'ans', maxLength: 99 },
+    '048': {
+      type: 'ans',
+      minLength: 5,
+      children: {
+        type: 'positional',
+        fields: [
+          { name: 'Fraud Score', length: 3 },
+          { name: 'Score Reason Code', length: 2 },
+          { name: 'Rules Triggered' }
+        ]
+      }
+    },
+    '049': { type: 'n', minLength: 3, maxLength: 3 },
+    '052': { type: 'b', minLength: 16, maxLength: 16 },
+    '061': {
+      type: 'ans',
+      minLength: 11,
+      maxLength: 26,
+      children: {
+        type: 'positional',
+        fields: [
+          { name: 'Terminal Attendance', length: 1 },
+          { name: 'Reserved', length: 1 },
+          { name: 'Terminal Location', length: 1 },
+          { name: 'Cardholder Presence', length: 1 },
+          { name: 'Card Presence', length: 1 },
+          { name: 'Card Capture Capabilities', length: 1 },
+          { name: 'Transaction Status', length: 1 },
+          { name: 'Transaction Security', length: 1 },
+          { name: 'Reserved', length: 1 },
+          { name: 'Cardholder-Activated Terminal Level', length: 1 },
+          { name: 'Card Data Terminal Input Capability', length: 1 },
+          { name: 'Authorization Life Cycle', length: 2 },
+          { name: 'Country Code', length: 3 },
+          { name: 'Postal Code' }
+        ]
+      }
+    },
+    '068': {
+      type: 'an',
+      minLength: 1,
+      maxLength: 1,
+      enumeration: { Y: 'Recurring', N: 'Not recurring' }
+    },
+    '085': { type: 'n', minLength: 1, maxLength: 12 },
+    '250': {
+      type: 'an',
+      enumeration: {
+        EMV: 'Chip (EMV)',
+        CONTACTLESS: 'Contactless',
+        MAGSTRIPE: 'Magnetic stripe',
+        FALLBACK: 'Magnetic stripe fallback',
+        MANUAL: 'Manual key entry',
+        ECOMMERCE: 'E-commerce',
+        MOTO: 'Mail or telephone order',
+        TOKEN: 'Tokenized wallet'
+      }
+    },
+    '251': {
+      type: 'an',
+      enumeration: {
+        Visa: 'Visa',
+        Mastercard: 'Mastercard',
+        Maestro: 'Maestro',
+        Amex: 'American Express',
+        Discover: 'Discover',
+        JCB: 'JCB',
+        UnionPay: 'UnionPay'
+      }
+    },
+    '253': { type: 'n', minLength: 4, maxLength: 4 },
+    '254': { type: 'n', minLength: 13, maxLength: 19 },
+    '259': { type: 'an', minLength: 2, maxLength: 3 },
+    '260': { type: 'ans', minLength: 7, maxLength: 16, pattern: /^\+?\d+$/ },
+    '261': { type: 'n', minLength: 1, maxLength: 12 },
+    '263': {
+      type: 'an',
+      children: {
+        type: 'klv',
+        dialect: DIALECTS.tag2,
+        names: {
+          '01': 'Issuer ID',
+          '02': 'Product ID',
+          '03': 'Program ID',
+          '04': 'Card Sequence Number'
+        }
+      }
+    },
+    '268': { type: 'n', minLength: 1, maxLength: 2 },
+    '270': {
+      type: 'b',
+      children: {
+        type: 'tlv',
+        names: {
+          '95': 'Terminal Verification Results',
+          '9A': 'Transaction Date',
+          '9F10': 'Issuer Application Data',
+          '9F26': 'Application Cryptogram',
+          '9F27': 'Cryptogram Information Data',
+          '9F36': 'Application Transaction Counter',
+          '9F37': 'Unpredictable Number'
+        }
+      }
+    },
+    '274': {
+      type: 'an',
+      minLength: 1,
+      maxLength: 1,
+      enumeration: {
+        A: 'Approved',
+        D: 'Declined',
+        P: 'Pending',
+        R: 'Reversed',
+        C: 'Cleared'
+      }
+    },
+    '300': { type: 'n', minLength: 1, maxLength: 12 },
+    '301': { type: 'n', minLength: 1, maxLength: 12 },
+    '302': { type: 'n', minLength: 3, maxLength: 3 },
+    '303': { type: 'n', minLength: 1, maxLength: 12 },
+    '404': { type: 'an', minLength: 2, maxLength: 3 },
+    '405': { type: 'n', minLength: 1, maxLength: 3 },
+    '416': {
+      type: 'an',
+      minLength: 1,
+      maxLength: 1,
+      enumeration: { Y: 'Automated fuel dispenser', N: 'Not an AFD transaction' }
+    },
+    '417': { type: 'n', minLength: 1, maxLength: 12 },
+    '419': { type: 'an', minLength: 1, maxLength: 10 },
+    '421': { type: 'n', minLength: 8, maxLength: 8, date: { format: 'YYYYMMDD' } },
+    '423': { type: 'an', minLength: 1, maxLength: 10 },
+    '425': { type: 'an', minLength: 2, maxLength: 3 },
+    '904': { type: 'n', minLength: 14, maxLength: 14, date: { format: 'YYYYMMDDhhmmss', expiry: true } },
+    '911': { type: 'n', minLength: 4, maxLength: 4, date: { format: 'YYMM', expiry: true } },
+    '912': { type: 'ans', minLength: 13, maxLength: 19 },
+    '916': { type: 'n', minLength: 13, maxLength: 19 },
+    '917': {
+      type: 'ans',
+      enumeration: {
+        SECURE_ELEMENT: 'Secure element',
+        HCE: 'Host card emulation',
+        CARD_ON_FILE: 'Card on file',
+        ECOMMERCE: 'E-commerce',
+        QRC: 'QR code'
+      }
+    },
+    '923': {
+      type: 'n',
+      minLength: 1,
+      maxLength: 1,
+      enumeration: {
+        '1': 'Token created',
+        '2': 'Token activated',
+        '3': 'Token suspended',
+        '4': 'Token resumed',
+        '5': 'Token deleted',
+        '6': 'Token updated'
+      }
+    },
+    '924': {
+      type: 'n',
+      minLength: 2,
+      maxLength: 2,
+      enumeration: {
+        '00': 'Issuer request',
+        '01': 'Cardholder request',
+        '02': 'Device lost or stolen',
+        '03': 'Fraud suspected',
+        '04': 'Account closed',
+        '05': 'Card replaced',
+        '06': 'Token expired'
+      }
+    }
+  } as Record<string, KLVFieldSchema>,
+
+  /**
+   * MISB ST 0601 UAS Datalink Local Set tags, keyed by tag number
+   */
+  misb0601Definitions: {
+    1: { name: 'Checksum', type: 'checksum', size: 2 },
+    2: { name: 'Precision Time Stamp', type: 'timestamp', size: 8 },
+    3: { name: 'Mission ID', type: 'string' },
+    4: { name: 'Platform Tail Number', type: 'string' },
+    5: { name: 'Platform Heading Angle', type: 'uint', range: [0, 360], units: '°', size: 2 },
+    6: { name: 'Platform Pitch Angle', type: 'int', range: [-20, 20], units: '°', size: 2 },
+    7: { name: 'Platform Roll Angle', type: 'int', range: [-50, 50], units: '°', size: 2 },
+    8: { name: 'Platform True Airspeed', type: 'uint', range: [0, 255], units: ' m/s', size: 1 },
+    9: { name: 'Platform Indicated Airspeed', type: 'uint', range: [0, 255], units: ' m/s', size: 1 },
+    10: { name: 'Platform Designation', type: 'string' },
+    11: { name: 'Image Source Sensor', type: 'string' },
+    12: { name: 'Image Coordinate System', type: 'string' },
+    13: { name: 'Sensor Latitude', type: 'int', range: [-90, 90], units: '°', size: 4 },
+    14: { name: 'Sensor Longitude', type: 'int', range: [-180, 180], units: '°', size: 4 },
+    15: { name: 'Sensor True Altitude', type: 'uint', range: [-900, 19000], units: ' m', size: 2 },
+    16: { name: 'Sensor Horizontal Field of View', type: 'uint', range: [0, 180], units: '°', size: 2 },
+    17: { name: 'Sensor Vertical Field of View', type: 'uint', range: [0, 180], units: '°', size: 2 },
+    18: { name: 'Sensor Relative Azimuth Angle', type: 'uint', range: [0, 360], units: '°', size: 4 },
+    19: { name: 'Sensor Relative Elevation Angle', type: 'int', range: [-180, 180], units: '°', size: 4 },
+    20: { name: 'Sensor Relative Roll Angle', type: 'uint', range: [0, 360], units: '°', size: 4 },
+    21: { name: 'Slant Range', type: 'uint', range: [0, 5000000], units: ' m', size: 4 },
+    22: { name: 'Target Width', type: 'uint', range: [0, 10000], units: ' m', size: 2 },
+    23: { name: 'Frame Center Latitude', type: 'int', range: [-90, 90], units: '°', size: 4 },
+    24: { name: 'Frame Center Longitude', type: 'int', range: [-180, 180], units: '°', size: 4 },
+    25: { name: 'Frame Center Elevation', type: 'uint', range: [-900, 19000], units: ' m', size: 2 },
+    48: { name: 'Security Local Set', type: 'bytes' },
+    56: { name: 'Platform Ground Speed', type: 'uint', range: [0, 255], units: ' m/s', size: 1 },
+    57: { name: 'Ground Range', type: 'uint', range: [0, 5000000], units: ' m', size: 4 },
+    59: { name: 'Platform Call Sign', type: 'string' },
+    65: { name: 'UAS Datalink LS Version Number', type: 'uint', size: 1 }
+  } as Record<number, MISBTagDefinition>,
+
+  /**
+   * ISO 4217 Currency Codes mapping to currency names, country flags and
+   * minor-unit exponents (decimal places)
    * Based on https://www.iban.com/currency-codes
    */
   currencyMapping: {
     // Major currencies
-    '840': { name: 'US Dollar', code: 'USD', flag: '🇺🇸' },
-    '978': { name: 'Euro', code: 'EUR', flag: '🇪🇺' },
-    '826': { name: 'Pound Sterling', code: 'GBP', flag: '🇬🇧' },
-    '392': { name: 'Japanese Yen', code: 'JPY', flag: '🇯🇵' },
-    '756': { name: 'Swiss Franc', code: 'CHF', flag: '🇨🇭' },
-    '124': { name: 'Canadian Dollar', code: 'CAD', flag: '🇨🇦' },
-    '036': { name: 'Australian Dollar', code: 'AUD', flag: '🇦🇺' },
-    '554': { name: 'New Zealand Dollar', code: 'NZD', flag: '🇳🇿' },
-    '156': { name: 'Chinese Yuan', code: 'CNY', flag: '🇨🇳' },
-    '356': { name: 'Indian Rupee', code: 'INR', flag: '🇮🇳' },
+    '840': { name: 'US Dollar', code: 'USD', flag: '🇺🇸', exponent: 2 },
+    '978': { name: 'Euro', code: 'EUR', flag: '🇪🇺', exponent: 2 },
+    '826': { name: 'Pound Sterling', code: 'GBP', flag: '🇬🇧', exponent: 2 },
+    '392': { name: 'Japanese Yen', code: 'JPY', flag: '🇯🇵', exponent: 0 },
+    '756': { name: 'Swiss Franc', code: 'CHF', flag: '🇨🇭', exponent: 2 },
+    '124': { name: 'Canadian Dollar', code: 'CAD', flag: '🇨🇦', exponent: 2 },
+    '036': { name: 'Australian Dollar', code: 'AUD', flag: '🇦🇺', exponent: 2 },
+    '554': { name: 'New Zealand Dollar', code: 'NZD', flag: '🇳🇿', exponent: 2 },
+    '156': { name: 'Chinese Yuan', code: 'CNY', flag: '🇨🇳', exponent: 2 },
+    '356': { name: 'Indian Rupee', code: 'INR', flag: '🇮🇳', exponent: 2 },
     
     // European currencies
-    '752': { name: 'Swedish Krona', code: 'SEK', flag: '🇸🇪' },
-    '578': { name: 'Norwegian Krone', code: 'NOK', flag: '🇳🇴' },
-    '208': { name: 'Danish Krone', code: 'DKK', flag: '🇩🇰' },
-    '985': { name: 'Polish Zloty', code: 'PLN', flag: '🇵🇱' },
-    '203': { name: 'Czech Koruna', code: 'CZK', flag: '🇨🇿' },
-    '348': { name: 'Hungarian Forint', code: 'HUF', flag: '🇭🇺' },
-    '946': { name: 'Romanian Leu', code: 'RON', flag: '🇷🇴' },
-    '975': { name: 'Bulgarian Lev', code: 'BGN', flag: '🇧🇬' },
-    '191': { name: 'Croatian Kuna', code: 'HRK', flag: '🇭🇷' },
-    '941': { name: 'Serbian Dinar', code: 'RSD', flag: '🇷🇸' },
+    '752': { name: 'Swedish Krona', code: 'SEK', flag: '🇸🇪', exponent: 2 },
+    '578': { name: 'Norwegian Krone', code: 'NOK', flag: '🇳🇴', exponent: 2 },
+    '208': { name: 'Danish Krone', code: 'DKK', flag: '🇩🇰', exponent: 2 },
+    '985': { name: 'Polish Zloty', code: 'PLN', flag: '🇵🇱', exponent: 2 },
+    '203': { name: 'Czech Koruna', code: 'CZK', flag: '🇨🇿', exponent: 2 },
+    '348': { name: 'Hungarian Forint', code: 'HUF', flag: '🇭🇺', exponent: 2 },
+    '946': { name: 'Romanian Leu', code: 'RON', flag: '🇷🇴', exponent: 2 },
+    '975': { name: 'Bulgarian Lev', code: 'BGN', flag: '🇧🇬', exponent: 2 },
+    '191': { name: 'Croatian Kuna', code: 'HRK', flag: '🇭🇷', exponent: 2 },
+    '941': { name: 'Serbian Dinar', code: 'RSD', flag: '🇷🇸', exponent: 2 },
     
     // Asia Pacific
-    '702': { name: 'Singapore Dollar', code: 'SGD', flag: '🇸🇬' },
-    '344': { name: 'Hong Kong Dollar', code: 'HKD', flag: '🇭🇰' },
-    '410': { name: 'Korean Won', code: 'KRW', flag: '🇰🇷' },
-    '764': { name: 'Thai Baht', code: 'THB', flag: '🇹🇭' },
-    '458': { name: 'Malaysian Ringgit', code: 'MYR', flag: '🇲🇾' },
-    '360': { name: 'Indonesian Rupiah', code: 'IDR', flag: '🇮🇩' },
-    '608': { name: 'Philippine Peso', code: 'PHP', flag: '🇵🇭' },
-    '704': { name: 'Vietnamese Dong', code: 'VND', flag: '🇻🇳' },
-    '096': { name: 'Brunei Dollar', code: 'BND', flag: '🇧🇳' },
+    '702': { name: 'Singapore Dollar', code: 'SGD', flag: '🇸🇬', exponent: 2 },
+    '344': { name: 'Hong Kong Dollar', code: 'HKD', flag: '🇭🇰', exponent: 2 },
+    '410': { name: 'Korean Won', code: 'KRW', flag: '🇰🇷', exponent: 0 },
+    '764': { name: 'Thai Baht', code: 'THB', flag: '🇹🇭', exponent: 2 },
+    '458': { name: 'Malaysian Ringgit', code: 'MYR', flag: '🇲🇾', exponent: 2 },
+    '360': { name: 'Indonesian Rupiah', code: 'IDR', flag: '🇮🇩', exponent: 2 },
+    '608': { name: 'Philippine Peso', code: 'PHP', flag: '🇵🇭', exponent: 2 },
+    '704': { name: 'Vietnamese Dong', code: 'VND', flag: '🇻🇳', exponent: 0 },
+    '096': { name: 'Brunei Dollar', code: 'BND', flag: '🇧🇳', exponent: 2 },
     
     // Americas
-    '484': { name: 'Mexican Peso', code: 'MXN', flag: '🇲🇽' },
-    '986': { name: 'Brazilian Real', code: 'BRL', flag: '🇧🇷' },
-    '032': { name: 'Argentine Peso', code: 'ARS', flag: '🇦🇷' },
-    '152': { name: 'Chilean Peso', code: 'CLP', flag: '🇨🇱' },
-    '604': { name: 'Peruvian Sol', code: 'PEN', flag: '🇵🇪' },
-    '170': { name: 'Colombian Peso', code: 'COP', flag: '🇨🇴' },
-    '858': { name: 'Uruguayan Peso', code: 'UYU', flag: '🇺🇾' },
-    '600': { name: 'Paraguayan Guarani', code: 'PYG', flag: '🇵🇾' },
-    '068': { name: 'Bolivian Boliviano', code: 'BOB', flag: '🇧🇴' },
-    '218': { name: 'Ecuadorian Sucre', code: 'ECS', flag: '🇪🇨' },
+    '484': { name: 'Mexican Peso', code: 'MXN', flag: '🇲🇽', exponent: 2 },
+    '986': { name: 'Brazilian Real', code: 'BRL', flag: '🇧🇷', exponent: 2 },
+    '032': { name: 'Argentine Peso', code: 'ARS', flag: '🇦🇷', exponent: 2 },
+    '152': { name: 'Chilean Peso', code: 'CLP', flag: '🇨🇱', exponent: 0 },
+    '604': { name: 'Peruvian Sol', code: 'PEN', flag: '🇵🇪', exponent: 2 },
+    '170': { name: 'Colombian Peso', code: 'COP', flag: '🇨🇴', exponent: 2 },
+    '858': { name: 'Uruguayan Peso', code: 'UYU', flag: '🇺🇾', exponent: 2 },
+    '600': { name: 'Paraguayan Guarani', code: 'PYG', flag: '🇵🇾', exponent: 0 },
+    '068': { name: 'Bolivian Boliviano', code: 'BOB', flag: '🇧🇴', exponent: 2 },
+    '218': { name: 'Ecuadorian Sucre', code: 'ECS', flag: '🇪🇨', exponent: 0 },
     
     // Middle East & Africa
-    '784': { name: 'UAE Dirham', code: 'AED', flag: '🇦🇪' },
-    '682': { name: 'Saudi Riyal', code: 'SAR', flag: '🇸🇦' },
-    '376': { name: 'Israeli New Shekel', code: 'ILS', flag: '🇮🇱' },
-    '818': { name: 'Egyptian Pound', code: 'EGP', flag: '🇪🇬' },
-    '710': { name: 'South African Rand', code: 'ZAR', flag: '🇿🇦' },
-    '566': { name: 'Nigerian Naira', code: 'NGN', flag: '🇳🇬' },
-    '404': { name: 'Kenyan Shilling', code: 'KES', flag: '🇰🇪' },
-    '788': { name: 'Tunisian Dinar', code: 'TND', flag: '🇹🇳' },
-    '504': { name: 'Moroccan Dirham', code: 'MAD', flag: '🇲🇦' },
-    '012': { name: 'Algerian Dinar', code: 'DZD', flag: '🇩🇿' },
+    '784': { name: 'UAE Dirham', code: 'AED', flag: '🇦🇪', exponent: 2 },
+    '682': { name: 'Saudi Riyal', code: 'SAR', flag: '🇸🇦', exponent: 2 },
+    '376': { name: 'Israeli New Shekel', code: 'ILS', flag: '🇮🇱', exponent: 2 },
+    '818': { name: 'Egyptian Pound', code: 'EGP', flag: '🇪🇬', exponent: 2 },
+    '710': { name: 'South African Rand', code: 'ZAR', flag: '🇿🇦', exponent: 2 },
+    '566': { name: 'Nigerian Naira', code: 'NGN', flag: '🇳🇬', exponent: 2 },
+    '404': { name: 'Kenyan Shilling', code: 'KES', flag: '🇰🇪', exponent: 2 },
+    '788': { name: 'Tunisian Dinar', code: 'TND', flag: '🇹🇳', exponent: 3 },
+    '504': { name: 'Moroccan Dirham', code: 'MAD', flag: '🇲🇦', exponent: 2 },
+    '012': { name: 'Algerian Dinar', code: 'DZD', flag: '🇩🇿', exponent: 2 },
     
     // Eastern Europe & CIS
-    '643': { name: 'Russian Ruble', code: 'RUB', flag: '🇷🇺' },
-    '980': { name: 'Ukrainian Hryvnia', code: 'UAH', flag: '🇺🇦' },
-    '398': { name: 'Kazakhstani Tenge', code: 'KZT', flag: '🇰🇿' },
-    '051': { name: 'Armenian Dram', code: 'AMD', flag: '🇦🇲' },
-    '031': { name: 'Azerbaijani Manat', code: 'AZN', flag: '🇦🇿' },
-    '934': { name: 'Turkmenistani Manat', code: 'TMT', flag: '🇹🇲' },
-    '860': { name: 'Uzbekistani Som', code: 'UZS', flag: '🇺🇿' },
-    '417': { name: 'Kyrgyzstani Som', code: 'KGS', flag: '🇰🇬' },
-    '972': { name: 'Tajikistani Somoni', code: 'TJS', flag: '🇹🇯' },
+    '643': { name: 'Russian Ruble', code: 'RUB', flag: '🇷🇺', exponent: 2 },
+    '980': { name: 'Ukrainian Hryvnia', code: 'UAH', flag: '🇺🇦', exponent: 2 },
+    '398': { name: 'Kazakhstani Tenge', code: 'KZT', flag: '🇰🇿', exponent: 2 },
+    '051': { name: 'Armenian Dram', code: 'AMD', flag: '🇦🇲', exponent: 2 },
+    '031': { name: 'Azerbaijani Manat', code: 'AZN', flag: '🇦🇿', exponent: 2 },
+    '934': { name: 'Turkmenistani Manat', code: 'TMT', flag: '🇹🇲', exponent: 2 },
+    '860': { name: 'Uzbekistani Som', code: 'UZS', flag: '🇺🇿', exponent: 2 },
+    '417': { name: 'Kyrgyzstani Som', code: 'KGS', flag: '🇰🇬', exponent: 2 },
+    '972': { name: 'Tajikistani Somoni', code: 'TJS', flag: '🇹🇯', exponent: 2 },
     
     // Additional major currencies
-    '949': { name: 'Turkish Lira', code: 'TRY', flag: '🇹🇷' },
-    '364': { name: 'Iranian Rial', code: 'IRR', flag: '🇮🇷' },
-    '368': { name: 'Iraqi Dinar', code: 'IQD', flag: '🇮🇶' },
-    '414': { name: 'Kuwaiti Dinar', code: 'KWD', flag: '🇰🇼' },
-    '048': { name: 'Bahraini Dinar', code: 'BHD', flag: '🇧🇭' },
-    '634': { name: 'Qatari Rial', code: 'QAR', flag: '🇶🇦' },
-    '512': { name: 'Omani Rial', code: 'OMR', flag: '🇴🇲' },
-    '422': { name: 'Lebanese Pound', code: 'LBP', flag: '🇱🇧' },
-    '400': { name: 'Jordanian Dinar', code: 'JOD', flag: '🇯🇴' }
+    '949': { name: 'Turkish Lira', code: 'TRY', flag: '🇹🇷', exponent: 2 },
+    '364': { name: 'Iranian Rial', code: 'IRR', flag: '🇮🇷', exponent: 2 },
+    '368': { name: 'Iraqi Dinar', code: 'IQD', flag: '🇮🇶', exponent: 3 },
+    '414': { name: 'Kuwaiti Dinar', code: 'KWD', flag: '🇰🇼', exponent: 3 },
+    '048': { name: 'Bahraini Dinar', code: 'BHD', flag: '🇧🇭', exponent: 3 },
+    '634': { name: 'Qatari Rial', code: 'QAR', flag: '🇶🇦', exponent: 2 },
+    '512': { name: 'Omani Rial', code: 'OMR', flag: '🇴🇲', exponent: 3 },
+    '422': { name: 'Lebanese Pound', code: 'LBP', flag: '🇱🇧', exponent: 2 },
+    '400': { name: 'Jordanian Dinar', code: 'JOD', flag: '🇯🇴', exponent: 3 }
   } as const,
 
   /**
-   * Format currency value with currency name and flag
-   * @param value - The currency code value (ISO 4217 numeric code)
-   * @param key - The KLV key to determine if it's a currency field
-   * @returns Formatted currency information or null if not a currency field
+   * ISO 3166-1 countries, keyed by numeric code
    */
-  formatCurrency(value: string, key: string): { formattedValue: string; currencyInfo?: { code: string; name: string; flag: string; } } | null {
-    // Check if this is the Original Currency Code field (key 049)
-    if (key !== '049') {
-      return null;
-    }
+  countryMapping,
 
-    // Pad the value to 3 digits if needed (some currency codes might be shorter)
-    const paddedValue = value.padStart(3, '0');
-    const currency = this.currencyMapping[paddedValue as keyof typeof this.currencyMapping];
-    
-    if (currency) {
-      return {
-        formattedValue: `${currency.flag} ${currency.code} - ${currency.name}`,
-        currencyInfo: {
-          code: currency.code,
-          name: currency.name,
-          flag: currency.flag
-        }
-      };
-    }
-    
-    // If currency not found, still show the original value with indication
-    return {
-      formattedValue: `${value} (Unknown Currency Code)`,
-      currencyInfo: undefined
-    };
-  },
+  /**
+   * Fields holding an ISO 3166-1 country code (numeric, alpha-2 or alpha-3)
+   */
+  countryKeys: ['259', '404', '425'],
 
   /**
-   * Parse KLV string into individual components
-   * @param klvString - The KLV data string to parse
-   * @returns Object containing results and errors
+   * Merchant Category Codes, their groups and the reserved airline, car
+   * rental and hotel ranges
    */
-  parse(klvString: string): KLVParseResult {
+  mccMapping,
+  mccGroups,
+  mccRanges,
+
+  /**
+   * Required, optional and forbidden keys per message type
+   */
+  profiles: messageProfiles,
+
+  /**
+   * Card brands by IIN range, used for the PAN checks
+   */
+  cardBrands,
+
+  /**
+   * Fields holding a PAN. The digitized PAN fields imply a brand; the
+   * masked FPAN is expected to share the digitized PAN's brand.
+   */
+  panKeys: ['254', '912', '916'],
+  panBrands: {
+    '254': 'Mastercard',
+    '916': 'Visa'
+  } as Record<string, string>,
+
+  /**
+   * Amount fields and the currency field their value is denominated in
+   */
+  amountCurrencyKeys: {
+    '004': '049',
+    '085': '049',
+    '261': '049',
+    '300': '049',
+    '301': '049',
+    '303': '302',
+    '417': '049'
+  } as Record<string, string>,
+
+  /**
+   * Named framing presets. 'standard' is the KKKLL layout used by the
+   * payment definitions above.
+   */
+  dialects: DIALECTS,
+
+  /**
+   * Units a length field can count, with display names
+   */
+  lengthUnits: LENGTH_UNITS,
+
+  /**
+   * Measure a value in a length unit
+   * @param value - The value to measure
+   * @param unit - What to count (defaults to UTF-16 code units)
+   * @returns The length a header would carry for the value
+   */
+  measureLength(value: string, unit: KLVLengthUnit = 'utf16'): number {
+    return scanUnits(value, 0, Infinity, unit).units;
+  },
+
+  /**
+   * Find the length units that would frame the input differently from the
+   * one it is parsed with. Only non-ASCII values can be affected.
+   * @param klvString - The KLV input
+   * @param options - Parse options, including the length unit in use
+   * @returns The other units that give different entries or errors
+   */
+  findFramingConflicts(klvString: string, options: KLVParseOptions = {}): KLVLengthUnit[] {
+    if (!/[\u0080-\uffff]/.test(klvString)) {
+      return [];
+    }
+    const { lengthUnit = 'utf16' } = options;
+    const framing = (unit: KLVLengthUnit) => {
+      const { results, errors } = KLVParser.parse(klvString, { ...options, lengthUnit: unit });
+      return JSON.stringify([results.map(r => [r.pos, r.value]), errors.map(e => [e.code, e.start])]);
+    };
+    const current = framing(lengthUnit);
+    return (Object.keys(LENGTH_UNITS) as KLVLengthUnit[])
+      .filter(unit => unit !== lengthUnit && framing(unit) !== current);
+  },
+
+  /**
+   * Read a length field according to the dialect's encoding
+   * @param lenStr - The raw length characters
+   * @param dialect - Dialect describing the length encoding
+   * @returns The decoded length, or null if the characters are not valid
+   */
+  decodeLength(lenStr: string, dialect: KLVDialect): number | null {
+    const pattern = dialect.lengthEncoding === 'hex' ? /^[0-9A-Fa-f]+$/ : /^\d+$/;
+    if (lenStr.length !== dialect.lengthWidth || !pattern.test(lenStr)) {
+      return null;
+    }
+    return parseInt(lenStr, dialect.lengthEncoding === 'hex' ? 16 : 10);
+  },
+
+  /**
+   * Encode a length according to the dialect's encoding and width
+   * @param length - Value length to encode
+   * @param dialect - Dialect describing the length encoding
+   * @returns The padded length field
+   */
+  encodeLength(length: number, dialect: KLVDialect): string {
+    const digits = dialect.lengthEncoding === 'hex'
+      ? length.toString(16).toUpperCase()
+      : length.toString();
+    return digits.padStart(dialect.lengthWidth, '0');
+  },
+
+  /**
+   * Look up the name of a key; definitions only cover three-digit keys
+   * @param key - The KLV key
+   * @returns The field name, or 'Unknown'
+   */
+  getName(key: string): string {
+    return KLVParser.definitions[key as keyof typeof KLVParser.definitions] || 'Unknown';
+  },
+
+  /**
+   * Format currency value with currency name and flag
+   * @param value - The currency code value (ISO 4217 numeric code)
+   * @param key - The KLV key to determine if it's a currency field
+   * @returns Formatted currency information or null if not a currency field
+   */
+  formatCurrency(value: string, key: string): { formattedValue: string; currencyInfo?: { code: string; name: string; flag: string; } } | null {
+    // Check if this is the Original Currency Code field (key 049)
+    if (key !== '049') {
+      return null;
+    }
+
+    // Pad the value to 3 digits if needed (some currency codes might be shorter)
+    const paddedValue = value.padStart(3, '0');
+    const currency = this.currencyMapping[paddedValue as keyof typeof this.currencyMapping];
+    
+    if (currency) {
+      return {
+        formattedValue: `${currency.flag} ${currency.code} - ${currency.name}`,
+        currencyInfo: {
+          code: currency.code,
+          name: currency.name,
+          flag: currency.flag
+        }
+      };
+    }
+    
+    // If currency not found, still show the original value with indication
+    return {
+      formattedValue: `${value} (Unknown Currency Code)`,
+      currencyInfo: undefined
+    };
+  },
+
+  /**
+   * Look up a country by any ISO 3166-1 code form
+   * @param code - Numeric ('840'), alpha-2 ('US') or alpha-3 ('USA') code
+   * @returns The country, or null if the code doesn't exist
+   */
+  findCountry(code: string): KLVCountryInfo | null {
+    const upper = code.toUpperCase();
+    if (/^\d{1,3}$/.test(code)) {
+      const numeric = code.padStart(3, '0');
+      const country = KLVParser.countryMapping[numeric];
+      return country ? { numeric, ...country } : null;
+    }
+
+    const field = upper.length === 2 ? 'alpha2' : 'alpha3';
+    const numeric = Object.keys(KLVParser.countryMapping)
+      .find(n => KLVParser.countryMapping[n][field] === upper);
+    return numeric ? { numeric, ...KLVParser.countryMapping[numeric] } : null;
+  },
+
+  /**
+   * Format country value with country name and flag
+   * @param value - The country code value (numeric, alpha-2 or alpha-3)
+   * @param key - The KLV key to determine if it's a country field
+   * @returns Formatted country information or null if not a country field
+   */
+  formatCountry(value: string, key: string): { formattedValue: string; countryInfo?: KLVCountryInfo } | null {
+    if (!KLVParser.countryKeys.includes(key)) {
+      return null;
+    }
+
+    const country = KLVParser.findCountry(value);
+    if (country) {
+      return {
+        formattedValue: `${country.flag} ${country.alpha3} - ${country.name}`,
+        countryInfo: country
+      };
+    }
+
+    return {
+      formattedValue: `${value} (Unknown Country Code)`,
+      countryInfo: undefined
+    };
+  },
+
+  /**
+   * Look up a Merchant Category Code
+   * @param code - Four-digit MCC
+   * @returns Description and group, or null for unknown codes
+   */
+  findMCC(code: string): KLVMCCInfo | null {
+    if (!/^\d{4}$/.test(code)) {
+      return null;
+    }
+    const number = parseInt(code, 10);
+    const range = KLVParser.mccRanges.find(r => number >= r.from && number <= r.to);
+    const info = KLVParser.mccMapping[code] || (range && range.info);
+    if (!info) {
+      return null;
+    }
+    const group = KLVParser.mccGroups[info.group];
+    return { code, ...info, groupLabel: group.label, highRisk: group.highRisk };
+  },
+
+  /**
+   * Format a Merchant Category Code (key 026) with its description and group
+   * @param value - The MCC value
+   * @param key - The KLV key to determine if it's the MCC field
+   * @returns Formatted MCC information, or null if not the MCC field or the code is unknown
+   */
+  formatMCC(value: string, key: string): { formattedValue: string; mccInfo: KLVMCCInfo } | null {
+    if (key !== '026') {
+      return null;
+    }
+
+    const mcc = KLVParser.findMCC(value);
+    if (!mcc) {
+      return null;
+    }
+    return {
+      formattedValue: `${mcc.code} - ${mcc.description} (${mcc.groupLabel}${mcc.highRisk ? ', high risk' : ''})`,
+      mccInfo: mcc
+    };
+  },
+
+  /**
+   * Check a digit string against the Luhn (mod 10) checksum
+   * @param digits - The PAN
+   * @returns True if the check digit is correct
+   */
+  luhnCheck(digits: string): boolean {
+    if (!/^\d+$/.test(digits)) {
+      return false;
+    }
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = parseInt(digits[digits.length - 1 - i], 10);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  },
+
+  /**
+   * Identify a card brand from the leading digits of a PAN
+   * @param pan - The PAN; masked digits after the IIN are ignored
+   * @returns The brand, or null if no known range matches
+   */
+  findCardBrand(pan: string): CardBrand | null {
+    return KLVParser.cardBrands.find(brand => brand.prefixes.some(([from, to]) => {
+      const prefix = pan.slice(0, from.length);
+      return /^\d+$/.test(prefix) && prefix.length === from.length && prefix >= from && prefix <= to;
+    })) || null;
+  },
+
+  /**
+   * Check a PAN's Luhn digit, length and brand
+   * @param value - The PAN, possibly masked
+   * @param expectedBrand - Brand the PAN should belong to, if known
+   * @returns The check results
+   */
+  checkPAN(value: string, expectedBrand?: string): KLVPANInfo {
+    const brand = KLVParser.findCardBrand(value);
+    const lengthValid = brand
+      ? brand.lengths.indexOf(value.length) >= 0
+      : value.length >= 12 && value.length <= 19;
+    return {
+      brand: brand ? brand.name : null,
+      luhnValid: /^\d+$/.test(value) ? KLVParser.luhnCheck(value) : null,
+      lengthValid,
+      expectedBrand,
+      brandValid: !expectedBrand || (!!brand && brand.name === expectedBrand)
+    };
+  },
+
+  /**
+   * Whether a PAN passed every check that could be run on it
+   * @param info - PAN check results
+   * @returns False if any check failed
+   */
+  panCheckPassed(info: KLVPANInfo): boolean {
+    return info.luhnValid !== false && info.lengthValid && info.brandValid;
+  },
+
+  /**
+   * Decode a coded field using its schema's enumeration
+   * @param value - The code
+   * @param key - The KLV key
+   * @returns The code and its meaning, or null for fields without an enumeration and unknown codes
+   */
+  formatEnumeration(value: string, key: string): string | null {
+    const schema = KLVParser.schemas[key];
+    if (!schema || !schema.enumeration || !Object.prototype.hasOwnProperty.call(schema.enumeration, value)) {
+      return null;
+    }
+    return `${value} - ${schema.enumeration[value]}`;
+  },
+
+  /**
+   * Format an amount in minor units using the currency's exponent
+   * @param value - The amount digits, e.g. '000000050010'
+   * @param currencyCode - ISO 4217 numeric currency code
+   * @returns The amount, e.g. 'USD 500.10', or null for non-numeric amounts and unknown currencies
+   */
+  formatAmount(value: string, currencyCode: string): string | null {
+    const currency = KLVParser.currencyMapping[currencyCode.padStart(3, '0') as keyof typeof KLVParser.currencyMapping];
+    if (!currency || !/^\d+$/.test(value)) {
+      return null;
+    }
+
+    const digits = value.padStart(currency.exponent + 1, '0');
+    const integer = digits.slice(0, digits.length - currency.exponent).replace(/^0+(?=\d)/, '');
+    const fraction = digits.slice(digits.length - currency.exponent);
+    return `${currency.code} ${integer}${fraction ? `.${fraction}` : ''}`;
+  },
+
+  /**
+   * Decode an ISO 8583 conversion rate: the first digit is the number of
+   * decimal places, the remaining seven digits are the rate
+   * @param value - The 8-digit rate, e.g. '61234567'
+   * @returns The rate (1.234567), or null if the value is not 8 digits
+   */
+  decodeConversionRate(value: string): number | null {
+    if (!/^\d{8}$/.test(value)) {
+      return null;
+    }
+    return parseInt(value.slice(1), 10) / Math.pow(10, parseInt(value[0], 10));
+  },
+
+  /**
+   * Decode the sub-elements of a composite field. Child positions are
+   * offsets in the parent's input, so they line up with the parent entry.
+   * @param value - The composite field's value
+   * @param layout - How the value is structured
+   * @param offset - Position of the value in the input
+   * @returns The sub-elements, or null if the value does not fit the layout
+   */
+  parseChildren(value: string, layout: KLVChildLayout, offset: number = 0): KLVEntry[] | null {
+    switch (layout.type) {
+      case 'positional': {
+        const children: KLVEntry[] = [];
+        let pos = 0;
+        for (let i = 0; i < layout.fields.length && pos < value.length; i++) {
+          const field = layout.fields[i];
+          const len = field.length !== undefined ? Math.min(field.length, value.length - pos) : value.length - pos;
+          children.push({
+            key: (i + 1).toString(),
+            len,
+            value: value.substring(pos, pos + len),
+            pos: offset + pos,
+            name: field.name
+          });
+          pos += len;
+        }
+        return children;
+      }
+      case 'klv': {
+        const { results, errors } = KLVParser.parse(value, { dialect: layout.dialect });
+        if (errors.length > 0) {
+          return null;
+        }
+        return results.map(({ source, ...child }) => ({
+          ...child,
+          pos: offset + child.pos,
+          name: (layout.names && layout.names[child.key]) || 'Unknown'
+        }));
+      }
+      case 'tlv': {
+        const elements = splitTLV(value);
+        if (!elements) {
+          return null;
+        }
+        return elements.map(element => ({
+          key: element.tag,
+          len: element.len,
+          value: element.value,
+          pos: offset + element.offset,
+          name: (layout.names && layout.names[element.tag]) || 'Unknown'
+        }));
+      }
+      default:
+        return null;
+    }
+  },
+
+  /**
+   * Decode a date in the given layout, rejecting impossible dates such as
+   * 20240231 or a 13th month
+   * @param value - The date digits
+   * @param format - Layout of the digits
+   * @returns The decoded date, or null if the value is not a real date
+   */
+  decodeDate(value: string, format: KLVDateFormat): KLVDate | null {
+    const digits = format === 'YYMM' ? /^(\d{2})(\d{2})$/ : format === 'YYYYMMDD'
+      ? /^(\d{4})(\d{2})(\d{2})$/
+      : /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/;
+    const match = digits.exec(value);
+    if (!match) {
+      return null;
+    }
+
+    const [year, month, day = 1, hours = 0, minutes = 0, seconds = 0] = match.slice(1).map(Number);
+    const fullYear = format === 'YYMM' ? 2000 + year : year;
+    const date = new Date(Date.UTC(fullYear, month - 1, day, hours, minutes, seconds));
+    // Date.UTC rolls invalid parts over, so a mismatch means the date doesn't exist
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || hours > 23 || minutes > 59 || seconds > 59) {
+      return null;
+    }
+
+    const iso = date.toISOString();
+    switch (format) {
+      case 'YYMM':
+        return { date, end: new Date(Date.UTC(fullYear, month, 1)), iso: iso.slice(0, 7) };
+      case 'YYYYMMDD':
+        return { date, end: new Date(Date.UTC(fullYear, month - 1, day + 1)), iso: iso.slice(0, 10) };
+      default:
+        return { date, end: new Date(date.getTime() + 1000), iso: `${iso.slice(0, 19)}Z` };
+    }
+  },
+
+  /**
+   * Check a parsed entry against its key's schema
+   * @param entry - Parsed entry
+   * @param dialect - Dialect the entry was parsed with
+   * @param asOf - Reference date for expiry checks
+   * @returns Schema violations as warnings; empty if the value conforms
+   */
+  checkField(entry: KLVEntry, dialect: KLVDialect = DIALECTS.standard, asOf: Date = new Date()): KLVParseError[] {
+    const schema = dialect.keyWidth === 3 ? KLVParser.schemas[entry.key] : undefined;
+    if (!schema) {
+      return [];
+    }
+
+    const start = entry.pos + dialect.keyWidth + dialect.lengthWidth;
+    const warning = (code: KLVErrorCode, detail: string): KLVParseError => ({
+      code,
+      message: `Field ${entry.key} (${entry.name}) ${detail}`,
+      start,
+      end: start + entry.value.length,
+      severity: 'warning',
+      key: entry.key,
+      source: entry.source
+    });
+    const warnings: KLVParseError[] = [];
+    const { value } = entry;
+
+    if (schema.type && !FIELD_TYPES[schema.type].pattern.test(value)) {
+      warnings.push(warning(KLVErrorCode.INVALID_FIELD_TYPE, `must be ${FIELD_TYPES[schema.type].description}`));
+    }
+
+    const { minLength = 0, maxLength = Infinity } = schema;
+    if (value.length < minLength || value.length > maxLength) {
+      const expected = minLength === maxLength
+        ? `${minLength}`
+        : maxLength === Infinity ? `at least ${minLength}` : `${minLength}-${maxLength}`;
+      warnings.push(warning(KLVErrorCode.INVALID_FIELD_LENGTH, `must be ${expected} characters, got ${value.length}`));
+    }
+
+    // The pattern and code set only add information once the character set is right
+    if (schema.pattern && warnings.length === 0 && !schema.pattern.test(value)) {
+      warnings.push(warning(KLVErrorCode.INVALID_FIELD_FORMAT, 'does not match the expected format'));
+    }
+    if (schema.enumeration && warnings.length === 0 && !Object.prototype.hasOwnProperty.call(schema.enumeration, value)) {
+      warnings.push(warning(KLVErrorCode.INVALID_FIELD_VALUE, `has unknown code '${value}'`));
+    }
+    if (schema.date && warnings.length === 0) {
+      const decoded = KLVParser.decodeDate(value, schema.date.format);
+      if (!decoded) {
+        warnings.push(warning(KLVErrorCode.INVALID_FIELD_DATE, `is not a valid ${schema.date.format} date`));
+      } else if (schema.date.expiry && decoded.end.getTime() <= asOf.getTime()) {
+        warnings.push(warning(KLVErrorCode.EXPIRED_DATE, `expired ${decoded.iso} (as of ${asOf.toISOString().slice(0, 10)})`));
+      }
+    }
+
+    // PAN checks only mean something for a well-formed value
+    const { panInfo } = entry;
+    if (panInfo && warnings.length === 0) {
+      if (panInfo.luhnValid === false) {
+        warnings.push(warning(KLVErrorCode.INVALID_PAN, 'fails the Luhn check'));
+      }
+      if (!panInfo.lengthValid) {
+        warnings.push(warning(KLVErrorCode.INVALID_PAN, `has ${value.length} digits, not a valid ${panInfo.brand || 'card number'} length`));
+      }
+      if (!panInfo.brandValid) {
+        warnings.push(warning(KLVErrorCode.INVALID_PAN, `has ${panInfo.brand ? `a ${panInfo.brand}` : 'an unknown'} prefix, expected ${panInfo.expectedBrand}`));
+      }
+    }
+    if (entry.lastFourMatch === false && warnings.length === 0) {
+      warnings.push(warning(KLVErrorCode.PAN_MISMATCH, 'does not match the last four digits of the PAN'));
+    }
+
+    return warnings;
+  },
+
+  /**
+   * Check every parsed entry against its key's schema
+   * @param results - Parsed entries
+   * @param dialect - Dialect the entries were parsed with
+   * @param asOf - Reference date for expiry checks
+   * @returns All schema violations, in entry order
+   */
+  checkFields(results: KLVEntry[], dialect: KLVDialect = DIALECTS.standard, asOf: Date = new Date()): KLVParseError[] {
+    return results.flatMap(entry => KLVParser.checkField(entry, dialect, asOf));
+  },
+
+  /**
+   * Check whether a plausible header starts at the given position: a known
+   * key followed by a length that fits in the rest of the input. Keys are
+   * only checked against the definitions for three-digit dialects.
+   * @param clean - Whitespace-free KLV string
+   * @param pos - Position to check
+   * @param dialect - Framing rules
+   * @param lengthUnit - What the length field counts
+   * @returns True if parsing could resume at this position
+   */
+  isPlausibleHeader(clean: string, pos: number, dialect: KLVDialect = DIALECTS.standard, lengthUnit: KLVLengthUnit = 'utf16'): boolean {
+    const headerEnd = pos + dialect.keyWidth + dialect.lengthWidth;
+    const key = clean.substring(pos, pos + dialect.keyWidth);
+    const len = KLVParser.decodeLength(clean.substring(pos + dialect.keyWidth, headerEnd), dialect);
+
+    if (!/^\d+$/.test(key) || key.length !== dialect.keyWidth || len === null) {
+      return false;
+    }
+    if (dialect.keyWidth === 3 && !(key in KLVParser.definitions)) {
+      return false;
+    }
+    return scanUnits(clean, headerEnd, len, lengthUnit).units >= len;
+  },
+
+  /**
+   * Find the next position after a bad entry where parsing can resume
+   * @param clean - Whitespace-free KLV string
+   * @param from - Position of the bad entry
+   * @param dialect - Framing rules
+   * @param lengthUnit - What the length field counts
+   * @returns Position of the next plausible header, or -1 if there is none
+   */
+  findResyncPosition(clean: string, from: number, dialect: KLVDialect = DIALECTS.standard, lengthUnit: KLVLengthUnit = 'utf16'): number {
+    const headerWidth = dialect.keyWidth + dialect.lengthWidth;
+    for (let pos = from + 1; pos + headerWidth <= clean.length; pos++) {
+      if (KLVParser.isPlausibleHeader(clean, pos, dialect, lengthUnit)) {
+        return pos;
+      }
+    }
+    return -1;
+  },
+
+  /**
+   * Parse KLV string into individual components
+   * @param klvString - The KLV data string to parse
+   * @param options - Parse options (error recovery, dialect)
+   * @returns Object containing results and errors
+   */
+  parse(klvString: string, options: KLVParseOptions = {}): KLVParseResult {
+    const dialect = options.dialect || DIALECTS.standard;
+    const { lengthUnit = 'utf16' } = options;
+    const { keyWidth, lengthWidth } = dialect;
+    const headerWidth = keyWidth + lengthWidth;
     const results: KLVEntry[] = [];
-    const errors: string[] = [];
+    const errors: KLVParseError[] = [];
     let pos = 0;
-    const clean = klvString.replace(/\s/g, '');
+    const { clean, span } = createSourceMap(klvString);
+    const pushError = (error: KLVParseError) => {
+      errors.push({ ...error, source: span(error.start, error.end) });
+    };
+    // Position of the first occurrence of each key
+    const firstPositions: Record<string, number> = {};
 
     while (pos < clean.length) {
-      if (pos + 5 > clean.length) {
-        errors.push(`Incomplete entry at position ${pos}`);
+      if (pos + headerWidth > clean.length) {
+        pushError({
+          code: KLVErrorCode.TRUNCATED_HEADER,
+          message: `Incomplete entry at position ${pos}`,
+          start: pos,
+          end: clean.length,
+          severity: 'error'
+        });
         break;
       }
 
-      const key = clean.substring(pos, pos + 3);
-      const lenStr = clean.substring(pos + 3, pos + 5);
+      const key = clean.substring(pos, pos + keyWidth);
+      const len = KLVParser.decodeLength(clean.substring(pos + keyWidth, pos + headerWidth), dialect);
+      const valueLength = len === null ? 0 : len;
+      const { end: valEnd, units } = scanUnits(clean, pos + headerWidth, valueLength, lengthUnit);
+      let error: KLVParseError | null = null;
       
-      if (!/^\d{3}$/.test(key) || !/^\d{2}$/.test(lenStr)) {
-        errors.push(`Invalid format at position ${pos}`);
-        break;
+      if (!/^\d+$/.test(key)) {
+        error = {
+          code: KLVErrorCode.INVALID_KEY,
+          message: `Invalid key at position ${pos}`,
+          start: pos,
+          end: pos + keyWidth,
+          severity: 'error'
+        };
+      } else if (len === null) {
+        error = {
+          code: KLVErrorCode.INVALID_LENGTH,
+          message: `Invalid length at position ${pos + keyWidth}`,
+          start: pos + keyWidth,
+          end: pos + headerWidth,
+          severity: 'error',
+          key
+        };
+      } else if (units < valueLength) {
+        error = {
+          code: KLVErrorCode.TRUNCATED_VALUE,
+          message: `Incomplete value at position ${pos + headerWidth}`,
+          start: pos + headerWidth,
+          end: clean.length,
+          severity: 'error',
+          key
+        };
+      } else if (units > valueLength) {
+        error = {
+          code: KLVErrorCode.INVALID_LENGTH,
+          message: `Length at position ${pos + keyWidth} ends inside a multibyte character`,
+          start: pos + keyWidth,
+          end: valEnd,
+          severity: 'error',
+          key
+        };
+      } else if (lengthUnit === 'latin1' && /[\u0100-\uffff]/.test(clean.substring(pos + headerWidth, valEnd))) {
+        error = {
+          code: KLVErrorCode.INVALID_ENCODING,
+          message: `Value at position ${pos + headerWidth} has characters that Latin-1 cannot encode`,
+          start: pos + headerWidth,
+          end: valEnd,
+          severity: 'error',
+          key
+        };
       }
 
-      const len = parseInt(lenStr, 10);
-      const valEnd = pos + 5 + len;
-
-      if (valEnd > clean.length) {
-        errors.push(`Incomplete value at position ${pos + 5}`);
-        break;
+      if (error) {
+        const resyncPos = options.recover ? KLVParser.findResyncPosition(clean, pos, dialect, lengthUnit) : -1;
+        if (resyncPos === -1) {
+          pushError(error);
+          break;
+        }
+        // Report the skipped range and carry on from the next plausible header
+        pushError({
+          ...error,
+          message: `${error.message} (skipped positions ${pos}-${resyncPos - 1}, resumed at position ${resyncPos})`,
+          start: pos,
+          end: resyncPos,
+          severity: 'warning'
+        });
+        pos = resyncPos;
+        continue;
       }
 
-      const value = clean.substring(pos + 5, pos + 5 + len);
+      const value = clean.substring(pos + headerWidth, valEnd);
       
       // Create base entry
       const entry: KLVEntry = { 
         key, 
-        len, 
+        len: valueLength, 
         value, 
         pos, 
-        name: KLVParser.definitions[key as keyof typeof KLVParser.definitions] || 'Unknown' 
+        name: KLVParser.getName(key),
+        source: span(pos, valEnd)
       };
 
       // Add currency formatting if applicable
@@ -323,48 +1802,448 @@ const KLVParser = {
         entry.currencyInfo = currencyFormat.currencyInfo;
       }
 
+      const countryFormat = KLVParser.formatCountry(value, key);
+      if (countryFormat) {
+        entry.formattedValue = countryFormat.formattedValue;
+        entry.countryInfo = countryFormat.countryInfo;
+      }
+
+      // Schemas describe the three-digit payment keys only
+      const schema = keyWidth === 3 ? KLVParser.schemas[key] : undefined;
+      const enumeration = schema ? KLVParser.formatEnumeration(value, key) : null;
+      if (enumeration) {
+        entry.formattedValue = enumeration;
+      }
+
+      const decodedDate = schema && schema.date ? KLVParser.decodeDate(value, schema.date.format) : null;
+      if (decodedDate) {
+        entry.formattedValue = decodedDate.iso;
+      }
+
+      const mccFormat = KLVParser.formatMCC(value, key);
+      if (mccFormat) {
+        entry.formattedValue = mccFormat.formattedValue;
+        entry.mccInfo = mccFormat.mccInfo;
+      }
+
+      // Break composite fields down into sub-elements; values that don't
+      // fit the layout are left as a single opaque string
+      if (schema && schema.children) {
+        const children = KLVParser.parseChildren(value, schema.children, pos + headerWidth);
+        if (children && children.length > 0) {
+          // Sub-elements are contiguous, so each one runs up to the next
+          entry.children = children.map((child, i) => ({
+            ...child,
+            source: span(child.pos, i + 1 < children.length ? children[i + 1].pos : valEnd)
+          }));
+        }
+      }
+
+      if (key in firstPositions) {
+        entry.duplicate = true;
+        if (options.duplicates === 'error') {
+          pushError({
+            code: KLVErrorCode.DUPLICATE_KEY,
+            message: `Duplicate key ${key} at position ${pos} (first seen at position ${firstPositions[key]})`,
+            start: pos,
+            end: valEnd,
+            severity: 'error',
+            key
+          });
+        }
+      } else {
+        firstPositions[key] = pos;
+      }
+
       results.push(entry);
       pos = valEnd;
     }
 
+    // Amounts are formatted once the whole message is read, as the
+    // currency field may come after the amount
+    if (keyWidth === 3) {
+      for (const entry of results) {
+        const currencyKey = KLVParser.amountCurrencyKeys[entry.key];
+        const currency = currencyKey && results.find(r => r.key === currencyKey);
+        const amount = currency && KLVParser.formatAmount(entry.value, currency.value);
+        if (amount) {
+          entry.formattedValue = amount;
+        }
+      }
+
+      // The masked FPAN takes its expected brand from the digitized PAN,
+      // and 253 is compared with the FPAN when there is one
+      const digitizedPAN = results.find(r => r.key === '254' || r.key === '916');
+      for (const entry of results) {
+        if (KLVParser.panKeys.indexOf(entry.key) >= 0) {
+          const expectedBrand = KLVParser.panBrands[entry.key] || (digitizedPAN && KLVParser.panBrands[digitizedPAN.key]);
+          entry.panInfo = KLVParser.checkPAN(entry.value, expectedBrand);
+        }
+      }
+      const lastFour = results.find(r => r.key === '253');
+      const fullPAN = results.find(r => r.key === '912') || digitizedPAN;
+      if (lastFour && fullPAN) {
+        lastFour.lastFourMatch = fullPAN.value.slice(-4) === lastFour.value;
+      }
+
+      const rateEntry = results.find(r => r.key === '010');
+      const rate = rateEntry ? KLVParser.decodeConversionRate(rateEntry.value) : null;
+      if (rateEntry && rate !== null) {
+        rateEntry.formattedValue = rate.toFixed(parseInt(rateEntry.value[0], 10));
+
+        // Cross-check against the original amount. The billing currency
+        // isn't in the message, so the result is shown to two decimals.
+        const original = results.find(r => r.key === '004');
+        const currencyEntry = results.find(r => r.key === '049');
+        const currency = currencyEntry && KLVParser.currencyMapping[currencyEntry.value.padStart(3, '0') as keyof typeof KLVParser.currencyMapping];
+        if (original && original.formattedValue && currency) {
+          const originalValue = parseInt(original.value, 10) / Math.pow(10, currency.exponent);
+          rateEntry.conversionInfo = {
+            rate,
+            originalAmount: original.formattedValue,
+            convertedAmount: (originalValue * rate).toFixed(2)
+          };
+        }
+      }
+    }
+
     return { results, errors };
   },
 
+  /**
+   * Compare the keys of a message with a message profile
+   * @param results - Parsed entries
+   * @param profileId - The profile to check against
+   * @returns Missing, forbidden, unexpected and out-of-order keys
+   */
+  checkProfile(results: KLVEntry[], profileId: MessageProfileId): KLVProfileResult {
+    const profile: MessageProfile = KLVParser.profiles[profileId];
+    const keys = results.map(entry => entry.key).filter((key, i, all) => all.indexOf(key) === i);
+    const listed = [...profile.required, ...profile.optional, ...profile.forbidden];
+
+    // Each ordered key must come after the ordered keys before it
+    const outOfOrder: string[] = [];
+    let lastIndex = -1;
+    profile.order.forEach(key => {
+      const index = results.findIndex(entry => entry.key === key);
+      if (index < 0) return;
+      if (index < lastIndex) {
+        outOfOrder.push(key);
+      } else {
+        lastIndex = index;
+      }
+    });
+
+    const missing = profile.required.filter(key => keys.indexOf(key) < 0);
+    const forbidden = keys.filter(key => profile.forbidden.indexOf(key) >= 0);
+    const unexpected = keys.filter(key => listed.indexOf(key) < 0);
+    return {
+      profile: profileId,
+      conforms: missing.length + forbidden.length + unexpected.length + outOfOrder.length === 0,
+      missing,
+      forbidden,
+      unexpected,
+      outOfOrder
+    };
+  },
+
+  /**
+   * Count the keys that appear more than once
+   * @param results - Parsed entries
+   * @returns Number of occurrences per repeated key
+   */
+  findDuplicates(results: KLVEntry[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    results.forEach(entry => {
+      counts[entry.key] = (counts[entry.key] || 0) + 1;
+    });
+    const duplicates: Record<string, number> = {};
+    Object.keys(counts).filter(key => counts[key] > 1).forEach(key => {
+      duplicates[key] = counts[key];
+    });
+    return duplicates;
+  },
+
+  /**
+   * Collect entries into a key-value object
+   * @param results - Parsed entries
+   * @param mode - How repeated keys are resolved; in 'array' mode every value is an array
+   * @returns The object, or null in 'error' mode when a key repeats
+   */
+  toObject(results: KLVEntry[], mode: KLVDuplicateMode = 'first'): Record<string, string | string[]> | null {
+    if (mode === 'error' && Object.keys(KLVParser.findDuplicates(results)).length > 0) {
+      return null;
+    }
+
+    const object: Record<string, string | string[]> = {};
+    results.forEach(({ key, value }) => {
+      if (mode === 'array') {
+        object[key] = [...((object[key] as string[]) || []), value];
+      } else if (mode === 'last' || !(key in object)) {
+        object[key] = value;
+      }
+    });
+    return object;
+  },
+
+  /**
+   * Compare two lists of entries key by key
+   * @param before - Entries of the first message
+   * @param after - Entries of the second message
+   * @returns Added, removed, changed and reordered keys, each in message order
+   */
+  diffEntries(before: KLVBuildEntry[], after: KLVBuildEntry[]): KLVDiffResult {
+    const occurrences = (entries: KLVBuildEntry[]) => entries.map((entry, i) => (
+      entries.slice(0, i).filter(other => other.key === entry.key).length
+    ));
+    const beforeOccurrences = occurrences(before);
+    const afterOccurrences = occurrences(after);
+    const item = (key: string, occurrence: number, oldIndex: number, newIndex: number): KLVDiffEntry => ({
+      key,
+      name: KLVParser.getName(key),
+      occurrence,
+      ...(oldIndex >= 0 ? { oldValue: before[oldIndex].value, oldIndex } : {}),
+      ...(newIndex >= 0 ? { newValue: after[newIndex].value, newIndex } : {})
+    });
+
+    // Index in `after` of the entry each `before` entry pairs with, or -1
+    const pairs = before.map((entry, i) => {
+      for (let j = 0; j < after.length; j++) {
+        if (after[j].key === entry.key && afterOccurrences[j] === beforeOccurrences[i]) {
+          return j;
+        }
+      }
+      return -1;
+    });
+
+    const removed = before
+      .map((entry, i) => item(entry.key, beforeOccurrences[i], i, -1))
+      .filter((_, i) => pairs[i] === -1);
+    const added = after
+      .map((entry, j) => item(entry.key, afterOccurrences[j], -1, j))
+      .filter((_, j) => pairs.indexOf(j) === -1);
+    const matched = before
+      .map((entry, i) => item(entry.key, beforeOccurrences[i], i, pairs[i]))
+      .filter((_, i) => pairs[i] !== -1);
+    const changed = matched.filter(entry => entry.oldValue !== entry.newValue);
+
+    // The longest run of pairs already in order stays put; everything else moved
+    const runLengths: number[] = [];
+    const previous: number[] = [];
+    matched.forEach((entry, i) => {
+      runLengths[i] = 1;
+      previous[i] = -1;
+      for (let k = 0; k < i; k++) {
+        if ((matched[k].newIndex as number) < (entry.newIndex as number) && runLengths[k] + 1 > runLengths[i]) {
+          runLengths[i] = runLengths[k] + 1;
+          previous[i] = k;
+        }
+      }
+    });
+    const inOrder: number[] = [];
+    for (let i = runLengths.indexOf(Math.max(...runLengths)); i >= 0; i = previous[i]) {
+      inOrder.push(i);
+    }
+    const reordered = matched.filter((_, i) => inOrder.indexOf(i) === -1);
+
+    return {
+      added,
+      removed,
+      changed,
+      reordered,
+      identical: added.length + removed.length + changed.length + reordered.length === 0
+    };
+  },
+
+  /**
+   * Compare two KLV messages key by key
+   * @param a - The first message
+   * @param b - The second message
+   * @param options - Parse options applied to both messages
+   * @returns Added, removed, changed and reordered keys with old and new
+   * values, and the parsing errors of each message
+   */
+  diff(a: string, b: string, options: KLVParseOptions = {}): KLVMessageDiffResult {
+    const before = KLVParser.parse(a, options);
+    const after = KLVParser.parse(b, options);
+    const result = KLVParser.diffEntries(before.results, after.results);
+    const errors = { a: before.errors, b: after.errors };
+    return { ...result, identical: result.identical && errors.a.length === 0 && errors.b.length === 0, errors };
+  },
+
   /**
    * Validate KLV string format
    * @param klvString - The KLV data string to validate
+   * @param options - Parse options (error recovery, dialect) and the profile to check
    * @returns Validation result
    */
-  validate(klvString: string): KLVValidationResult {
-    const { results, errors } = KLVParser.parse(klvString);
-    return {
+  validate(klvString: string, options: KLVParseOptions = {}): KLVValidationResult {
+    const { results, errors } = KLVParser.parse(klvString, options);
+    const validation: KLVValidationResult = {
       isValid: errors.length === 0,
       entriesCount: results.length,
       errors,
+      warnings: KLVParser.checkFields(results, options.dialect, options.asOf),
       totalLength: klvString.replace(/\s/g, '').length
     };
+    if (options.profile) {
+      validation.profile = KLVParser.checkProfile(results, options.profile);
+    }
+    return validation;
+  },
+
+  /**
+   * Mask a value for display. Card numbers keep the first six and last
+   * four digits (the most PCI DSS allows to be shown); everything else is
+   * masked entirely. The length is kept so re-framed output stays valid.
+   * @param value - The clear value
+   * @param sensitivity - How the value is classified
+   * @returns The masked value
+   */
+  maskValue(value: string, sensitivity: KLVSensitivity): string {
+    if (sensitivity === 'pan' && value.length >= 13) {
+      return value.slice(0, 6) + '*'.repeat(value.length - 10) + value.slice(-4);
+    }
+    return '*'.repeat(value.length);
+  },
+
+  /**
+   * Mask an entry if its key is classified as sensitive
+   * @param entry - A parsed entry
+   * @returns A masked copy, or the entry itself if it is not sensitive
+   */
+  maskEntry(entry: KLVEntry): KLVEntry {
+    const sensitivity = KLVParser.sensitivity[entry.key];
+    return sensitivity ? maskWith(entry, sensitivity) : entry;
+  },
+
+  /**
+   * Mask every sensitive entry
+   * @param results - Parsed KLV results
+   * @returns The results with sensitive values masked
+   */
+  maskEntries(results: KLVEntry[]): KLVEntry[] {
+    return results.map(KLVParser.maskEntry);
+  },
+
+  /**
+   * Mask the values of sensitive entries in the input they were parsed from
+   * @param klvString - The KLV input
+   * @param results - Entries parsed from the input with the same dialect
+   * @param dialect - Framing rules the input was parsed with
+   * @returns The input without whitespace, with sensitive values masked
+   */
+  maskInput(klvString: string, results: KLVEntry[], dialect: KLVDialect = DIALECTS.standard): string {
+    const chars = klvString.replace(/\s/g, '').split('');
+    const headerWidth = dialect.keyWidth + dialect.lengthWidth;
+    results.forEach(entry => {
+      const sensitivity = KLVParser.sensitivity[entry.key];
+      if (!sensitivity) return;
+      const masked = KLVParser.maskValue(entry.value, sensitivity);
+      chars.splice(entry.pos + headerWidth, masked.length, ...masked.split(''));
+    });
+    return chars.join('');
+  },
+
+  /**
+   * Replace a value with a token of the same length. Tokens are digits, so
+   * they still pass numeric and hex checks; card numbers keep their last
+   * four digits. The same value gets the same token within a session.
+   * @param value - The clear value
+   * @param sensitivity - How the value is classified
+   * @param length - Characters in the token (defaults to the value's); pass
+   * the value's measured length so its length field still frames the token
+   * @returns The token
+   */
+  tokeniseValue(value: string, sensitivity: KLVSensitivity, length: number = value.length): string {
+    const keep = sensitivity === 'pan' && value.length >= 13 && /^\d{4}$/.test(value.slice(-4)) ? 4 : 0;
+    let hash = fnv1a(0x811c9dc5, TOKEN_SALT);
+    for (let i = 0; i < value.length; i++) {
+      hash = fnv1a(hash, value.charCodeAt(i));
+    }
+
+    let token = '';
+    for (let i = 0; i < length - keep; i++) {
+      hash = fnv1a(hash, i);
+      token += (hash % 10).toString();
+    }
+    return token + value.slice(value.length - keep);
+  },
+
+  /**
+   * Remove card numbers and PIN material from KLV input before it is
+   * stored. Parses in recovery mode so entries after corrupt data are
+   * still found.
+   * @param klvString - The KLV input
+   * @param policy - Whether to strip or tokenise the entries
+   * @param dialect - Framing rules to parse with
+   * @param lengthUnit - What the length fields count
+   * @returns The input without PCI data; whitespace and line breaks are kept
+   */
+  redact(
+    klvString: string,
+    policy: KLVRedactionPolicy,
+    dialect: KLVDialect = DIALECTS.standard,
+    lengthUnit: KLVLengthUnit = 'utf16'
+  ): string {
+    const { results } = KLVParser.parse(klvString, { recover: true, dialect, lengthUnit });
+    const headerWidth = dialect.keyWidth + dialect.lengthWidth;
+    const redacted = results.filter(entry => PCI_SCOPE.indexOf(KLVParser.sensitivity[entry.key]) >= 0);
+
+    // Splice the original text, backwards so an edit doesn't shift the entries before it
+    return redacted.reverse().reduce((text, entry) => {
+      const { offset, endOffset } = entry.source as KLVSourceSpan;
+      if (policy === 'strip') {
+        return text.slice(0, offset) + text.slice(endOffset);
+      }
+      // The value starts after the header's characters, which whitespace may split
+      let valueStart = offset;
+      for (let seen = 0; seen < headerWidth; valueStart++) {
+        if (!/\s/.test(text[valueStart])) seen++;
+      }
+      while (valueStart < endOffset && /\s/.test(text[valueStart])) {
+        valueStart++;
+      }
+      // Tokens are ASCII, so a token as long as the measured value keeps the header valid
+      const token = KLVParser.tokeniseValue(entry.value, KLVParser.sensitivity[entry.key], entry.len);
+      return text.slice(0, valueStart) + token + text.slice(endOffset);
+    }, klvString);
   },
 
   /**
    * Export results to different formats
    * @param results - Parsed KLV results
-   * @param format - Export format (json, csv, table)
+   * @param format - Export format (json, csv, table, klv)
+   * @param options - Export options (dialect for the klv format, masking)
    * @returns Exported data
    */
-  export(results: KLVEntry[], format: ExportFormat = 'json'): string {
+  export(entries: KLVEntry[], format: ExportFormat = 'json', options: KLVExportOptions = {}): string {
+    const results = options.mask ? KLVParser.maskEntries(entries) : entries;
     switch (format) {
       case 'json':
         return JSON.stringify(results, null, 2);
       case 'csv':
-        const headers = 'Key,Name,Length,Value,Position\n';
+        const headers = 'Key,Name,Length,Value,Position,Formatted Value\n';
         const rows = results.map(r => 
-          `"${r.key}","${r.name}","${r.len}","${r.value}","${r.pos}"`
+          `"${r.key}","${r.name}","${r.len}","${r.value}","${r.pos}","${r.formattedValue || ''}"`
         ).join('\n');
         return headers + rows;
       case 'table':
         return results.map(r => 
-          `${r.key.padEnd(5)} ${r.name.padEnd(30)} ${r.len.toString().padEnd(3)} ${r.value}`
+          `${r.key.padEnd(5)} ${r.name.padEnd(30)} ${r.len.toString().padEnd(3)} ${r.value}${r.formattedValue ? ` (${r.formattedValue})` : ''}`
         ).join('\n');
+      case 'klv': {
+        // Parsed values already carry their field warnings; only the framing can fail here
+        const { klv, errors } = KLVParser.build(results, {
+          dialect: options.dialect,
+          lengthUnit: options.lengthUnit,
+          checkValues: false
+        });
+        if (errors.length > 0) {
+          throw new Error(errors[0].message);
+        }
+        return klv;
+      }
       default:
         return JSON.stringify(results, null, 2);
     }
@@ -373,17 +2252,153 @@ const KLVParser = {
   /**
    * Build KLV string from entries
    * @param entries - Array of {key, value} objects
-   * @returns Built KLV string
-   */
-  build(entries: KLVBuildEntry[]): string {
-    return entries
-      .filter(entry => entry.key && entry.value)
-      .map(entry => {
-        const key = entry.key.padStart(3, '0');
-        const length = entry.value.length.toString().padStart(2, '0');
-        return key + length + entry.value;
-      })
-      .join('');
+   * @param options - Build options (dialect, length unit, value checks)
+   * @returns The KLV string, or an empty string with the errors of each
+   * entry, and warnings that don't block the build
+   */
+  build(entries: KLVBuildEntry[], options: KLVBuildOptions = {}): KLVBuildResult {
+    const dialect = options.dialect || DIALECTS.standard;
+    const { checkValues = true, lengthUnit = 'utf16', asOf = new Date() } = options;
+    const maxLength = Math.pow(dialect.lengthEncoding === 'hex' ? 16 : 10, dialect.lengthWidth) - 1;
+    const errors: KLVBuildError[] = [];
+    const warnings: KLVBuildError[] = [];
+
+    const chunks = entries.map((entry, index) => {
+      const error = (code: KLVErrorCode, message: string) => {
+        (BUILD_WARNING_CODES.indexOf(code) >= 0 ? warnings : errors).push({ index, key: entry.key, code, message });
+      };
+      const key = entry.key.padStart(dialect.keyWidth, '0');
+
+      if (!/^\d+$/.test(entry.key)) {
+        error(KLVErrorCode.INVALID_KEY, `Key '${entry.key}' must be numeric`);
+      } else if (entry.key.length > dialect.keyWidth) {
+        error(KLVErrorCode.INVALID_KEY, `Key ${entry.key} is longer than ${dialect.keyWidth} digits`);
+      }
+      const length = KLVParser.measureLength(entry.value, lengthUnit);
+      if (length > maxLength) {
+        error(
+          KLVErrorCode.INVALID_LENGTH,
+          `Value of ${key} is ${length} ${lengthUnit === 'utf16' ? 'characters' : LENGTH_UNITS[lengthUnit]}; a ${dialect.lengthWidth}-character length field holds at most ${maxLength}`
+        );
+      }
+      if (lengthUnit === 'latin1' && /[\u0100-\uffff]/.test(entry.value)) {
+        error(KLVErrorCode.INVALID_ENCODING, `Value of ${key} has characters that Latin-1 cannot encode`);
+      }
+      // Parsing drops whitespace, so a value with any would no longer fill its length
+      if (/\s/.test(entry.value)) {
+        error(KLVErrorCode.WHITESPACE_IN_VALUE, `Value of ${key} contains whitespace, which parsing ignores`);
+      }
+
+      if (checkValues && !entry.value) {
+        error(KLVErrorCode.EMPTY_VALUE, `Value of ${key} is empty`);
+      } else if (checkValues) {
+        const parsed: KLVEntry = { key, len: entry.value.length, value: entry.value, pos: 0, name: KLVParser.getName(key) };
+        if (KLVParser.panKeys.indexOf(key) >= 0) {
+          parsed.panInfo = KLVParser.checkPAN(entry.value, KLVParser.panBrands[key]);
+        }
+        KLVParser.checkField(parsed, dialect, asOf).forEach(warning => error(warning.code, warning.message));
+      }
+
+      return key + KLVParser.encodeLength(length, dialect) + entry.value;
+    });
+
+    return { klv: errors.length > 0 ? '' : chunks.join(''), errors, warnings };
+  },
+
+  /**
+   * Apply operations to a KLV message and re-frame it. The input is not
+   * changed; operations apply in order, each to the result of the last.
+   * @param klvString - The message to patch
+   * @param operations - Set, remove, rename and move operations
+   * @param options - Framing of the message (dialect, length unit)
+   * @returns The patched message, or null with a description of each problem
+   */
+  patch(klvString: string, operations: KLVPatchOperation[], options: KLVPatchOptions = {}): KLVPatchResult {
+    const dialect = options.dialect || DIALECTS.standard;
+    const { results, errors: parseErrors } = KLVParser.parse(klvString, { dialect, lengthUnit: options.lengthUnit });
+    if (parseErrors.length > 0) {
+      return { klv: null, errors: parseErrors.map(error => `Input: ${error.message}`) };
+    }
+    const shapeErrors = operations.flatMap((operation, i) => checkOperationShape(operation, i + 1));
+    if (shapeErrors.length > 0) {
+      return { klv: null, errors: shapeErrors };
+    }
+
+    const entries: KLVBuildEntry[] = results.map(({ key, value }) => ({ key, value }));
+    for (let i = 0; i < operations.length; i++) {
+      const operation = operations[i];
+      const { key, occurrence = 0 } = operation;
+      const label = `Operation ${i + 1} (${operation.op} ${key})`;
+      const matches = entries.filter(entry => entry.key === key);
+      const index = matches.length > occurrence ? entries.indexOf(matches[occurrence]) : -1;
+
+      if (index === -1 && !(operation.op === 'set' && occurrence === matches.length)) {
+        const missing = occurrence === 0 ? `key ${key} is not in the message` : `key ${key} has no occurrence ${occurrence}`;
+        return { klv: null, errors: [`${label}: ${missing}`] };
+      }
+
+      switch (operation.op) {
+        case 'set':
+          if (index === -1) {
+            entries.push({ key, value: operation.value });
+          } else {
+            entries[index] = { key, value: operation.value };
+          }
+          break;
+        case 'remove':
+          entries.splice(index, 1);
+          break;
+        case 'rename':
+          entries[index] = { key: operation.to, value: entries[index].value };
+          break;
+        case 'move': {
+          const [moved] = entries.splice(index, 1);
+          if (operation.index > entries.length) {
+            return { klv: null, errors: [`${label}: index ${operation.index} is past the end of the message`] };
+          }
+          entries.splice(operation.index, 0, moved);
+          break;
+        }
+      }
+    }
+
+    // Keys and values are framed as given; only what can't be framed is an error
+    const { klv, errors } = KLVParser.build(entries, { dialect, lengthUnit: options.lengthUnit, checkValues: false });
+    if (errors.length > 0) {
+      return { klv: null, errors: errors.map(error => error.message) };
+    }
+
+    // The result must read back as the patched entries, or it isn't a usable message
+    const reparsed = KLVParser.parse(klv, { dialect, lengthUnit: options.lengthUnit });
+    const mismatch = entries.findIndex((entry, i) => {
+      const result = reparsed.results[i];
+      return !result || result.key !== entry.key.padStart(dialect.keyWidth, '0') || result.value !== entry.value;
+    });
+    if (reparsed.errors.length > 0 || reparsed.results.length !== entries.length || mismatch >= 0) {
+      const detail = reparsed.errors.length > 0 ? reparsed.errors[0].message : `entry ${mismatch + 1} reads back differently`;
+      return { klv: null, errors: [`Output: the patched message does not parse back (${detail})`] };
+    }
+    return { klv, errors: [] };
+  },
+
+  /**
+   * Load saved patch operations from JSON
+   * @param json - A JSON array of operations
+   * @returns The operations, or null with a description of each problem
+   */
+  loadPatch(json: string): KLVPatchLoadResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (err) {
+      return { operations: null, errors: [`Invalid JSON: ${(err as Error).message}`] };
+    }
+    if (!Array.isArray(data)) {
+      return { operations: null, errors: ['Patch must be a JSON array of operations'] };
+    }
+
+    const errors = data.flatMap((operation, i) => checkOperationShape(operation, i + 1));
+    return errors.length > 0 ? { operations: null, errors } : { operations: data as KLVPatchOperation[], errors: [] };
   }
 };
 
@@ -0,0 +1,321 @@
+/**
+ * KLV Rules Utility
+ * Declarative cross-field consistency rules, checked after parsing
+ */
+
+import KLVParser, { KLVEntry, KLVErrorSeverity, KLVSourceSpan } from './KLVParser';
+
+interface KLVRuleBase {
+  id: string;
+  /** Replaces the generated violation message */
+  message?: string;
+  /** Defaults to 'error' */
+  severity?: KLVErrorSeverity;
+}
+
+/**
+ * If any of `keys` is present, every key in `requires` must be too
+ */
+export interface KLVRequiresRule extends KLVRuleBase {
+  type: 'requires';
+  keys: string[];
+  requires: string[];
+}
+
+/**
+ * If any of `keys` is present, none of `excludes` may be
+ */
+export interface KLVExcludesRule extends KLVRuleBase {
+  type: 'excludes';
+  keys: string[];
+  excludes: string[];
+}
+
+/**
+ * If `key` is present, its value must be `value`, or the value of the
+ * `sameAs` field when that field is present
+ */
+export interface KLVEqualsRule extends KLVRuleBase {
+  type: 'equals';
+  key: string;
+  value?: string;
+  sameAs?: string;
+}
+
+/**
+ * If `when.key` is present with one of the `when.equals` values, every
+ * key in `requires` must be present
+ */
+export interface KLVConditionalRequiredRule extends KLVRuleBase {
+  type: 'conditional-required';
+  when: { key: string; equals: string[] };
+  requires: string[];
+}
+
+export type KLVRule = KLVRequiresRule | KLVExcludesRule | KLVEqualsRule | KLVConditionalRequiredRule;
+
+export type KLVRuleType = KLVRule['type'];
+
+export interface KLVRulePack {
+  name: string;
+  rules: KLVRule[];
+}
+
+export interface KLVRuleViolation {
+  ruleId: string;
+  /** Name of the pack the rule belongs to */
+  pack: string;
+  message: string;
+  severity: KLVErrorSeverity;
+  /** Key of the entry that triggered the rule */
+  key: string;
+  /** Where the triggering entry sits in the original input */
+  source?: KLVSourceSpan;
+}
+
+export interface KLVRulePackLoadResult {
+  pack: KLVRulePack | null;
+  errors: string[];
+}
+
+const RULE_TYPES: KLVRuleType[] = ['requires', 'excludes', 'equals', 'conditional-required'];
+
+const isStringArray = (value: unknown): value is string[] => (
+  Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string')
+);
+
+const describeKey = (key: string): string => `${key} (${KLVParser.getName(key)})`;
+
+const describeKeys = (keys: string[]): string => keys.map(describeKey).join(', ');
+
+/**
+ * Check the fields a rule of the given type needs
+ * @returns A description of each problem, prefixed with the rule's position
+ */
+const checkRuleShape = (rule: Record<string, unknown>, label: string): string[] => {
+  const errors: string[] = [];
+  const needStrings = (field: string) => {
+    if (!isStringArray(rule[field])) {
+      errors.push(`${label}: "${field}" must be a non-empty array of keys`);
+    }
+  };
+
+  switch (rule.type) {
+    case 'requires':
+      needStrings('keys');
+      needStrings('requires');
+      break;
+    case 'excludes':
+      needStrings('keys');
+      needStrings('excludes');
+      break;
+    case 'equals':
+      if (typeof rule.key !== 'string') {
+        errors.push(`${label}: "key" must be a string`);
+      }
+      if (typeof rule.value !== 'string' && typeof rule.sameAs !== 'string') {
+        errors.push(`${label}: "value" or "sameAs" must be a string`);
+      }
+      break;
+    case 'conditional-required': {
+      const when = rule.when as Record<string, unknown> | undefined;
+      if (!when || typeof when !== 'object' || typeof when.key !== 'string' || !isStringArray(when.equals)) {
+        errors.push(`${label}: "when" must have a "key" and a non-empty "equals" array`);
+      }
+      needStrings('requires');
+      break;
+    }
+    default:
+      errors.push(`${label}: unknown type ${JSON.stringify(rule.type)} (expected ${RULE_TYPES.join(', ')})`);
+  }
+
+  if (rule.severity !== undefined && rule.severity !== 'error' && rule.severity !== 'warning') {
+    errors.push(`${label}: "severity" must be "error" or "warning"`);
+  }
+  if (rule.message !== undefined && typeof rule.message !== 'string') {
+    errors.push(`${label}: "message" must be a string`);
+  }
+  return errors;
+};
+
+/**
+ * Rules for the Paymentology field set
+ */
+const DEFAULT_RULE_PACK: KLVRulePack = {
+  name: 'Default',
+  rules: [
+    {
+      id: 'amount-currency',
+      type: 'requires',
+      keys: ['004'],
+      requires: ['049']
+    },
+    {
+      id: 'cashback-currency',
+      type: 'requires',
+      keys: ['303'],
+      requires: ['302']
+    },
+    {
+      id: 'cashback-same-currency',
+      type: 'equals',
+      key: '302',
+      sameAs: '049',
+      severity: 'warning'
+    },
+    {
+      id: 'installments-set',
+      type: 'requires',
+      keys: ['268', '273', '275', '276'],
+      requires: ['268', '273', '275', '276']
+    },
+    {
+      id: 'digitization-token-reference',
+      type: 'requires',
+      keys: ['901', '902', '903', '904', '905', '906', '910', '911', '912', '915', '916', '917', '923', '924', '929', '930', '931'],
+      requires: ['913']
+    },
+    {
+      id: 'digitization-method-value',
+      type: 'requires',
+      keys: ['902'],
+      requires: ['903']
+    },
+    {
+      id: 'single-token-service',
+      type: 'excludes',
+      keys: ['254'],
+      excludes: ['916']
+    },
+    {
+      id: 'token-event-reason',
+      type: 'conditional-required',
+      when: { key: '923', equals: ['3', '5'] },
+      requires: ['924']
+    }
+  ]
+};
+
+const KLVRules = {
+  /**
+   * The built-in rule pack, applied unless the caller passes its own
+   */
+  defaultRulePack: DEFAULT_RULE_PACK,
+
+  /**
+   * Check parsed entries against rule packs. Only the first occurrence of
+   * a repeated key is considered.
+   * @param results - Parsed KLV entries
+   * @param packs - Rule packs to apply (defaults to the default pack)
+   * @param mask - Mask the values of sensitive keys quoted in messages
+   * @returns Violations in pack and rule order
+   */
+  evaluate(results: KLVEntry[], packs: KLVRulePack[] = [DEFAULT_RULE_PACK], mask = false): KLVRuleViolation[] {
+    const find = (key: string) => results.find(entry => entry.key === key);
+    const quote = (key: string, value: string) => {
+      const sensitivity = KLVParser.sensitivity[key];
+      return `'${mask && sensitivity ? KLVParser.maskValue(value, sensitivity) : value}'`;
+    };
+    const violations: KLVRuleViolation[] = [];
+
+    packs.forEach(pack => pack.rules.forEach(rule => {
+      const violation = (entry: KLVEntry, message: string) => {
+        violations.push({
+          ruleId: rule.id,
+          pack: pack.name,
+          message: rule.message || message,
+          severity: rule.severity || 'error',
+          key: entry.key,
+          source: entry.source
+        });
+      };
+
+      switch (rule.type) {
+        case 'requires': {
+          const trigger = results.find(entry => rule.keys.indexOf(entry.key) >= 0);
+          const missing = trigger ? rule.requires.filter(key => !find(key)) : [];
+          if (trigger && missing.length > 0) {
+            violation(trigger, `Field ${describeKey(trigger.key)} requires ${describeKeys(missing)}`);
+          }
+          break;
+        }
+        case 'excludes': {
+          const trigger = results.find(entry => rule.keys.indexOf(entry.key) >= 0);
+          const present = trigger ? rule.excludes.filter(key => key !== trigger.key && find(key)) : [];
+          if (trigger && present.length > 0) {
+            violation(trigger, `Field ${describeKey(trigger.key)} cannot appear with ${describeKeys(present)}`);
+          }
+          break;
+        }
+        case 'equals': {
+          const entry = find(rule.key);
+          const other = rule.sameAs !== undefined ? find(rule.sameAs) : undefined;
+          const expected = other ? other.value : rule.value;
+          if (entry && expected !== undefined && entry.value !== expected) {
+            // A literal expected value is as sensitive as the field it is compared with
+            const target = other ? `${describeKey(other.key)} (${quote(other.key, expected)})` : quote(entry.key, expected);
+            violation(entry, `Field ${describeKey(entry.key)} must equal ${target}, got ${quote(entry.key, entry.value)}`);
+          }
+          break;
+        }
+        case 'conditional-required': {
+          const trigger = find(rule.when.key);
+          const missing = trigger && rule.when.equals.indexOf(trigger.value) >= 0
+            ? rule.requires.filter(key => !find(key))
+            : [];
+          if (trigger && missing.length > 0) {
+            violation(trigger, `Field ${describeKey(trigger.key)} ${quote(trigger.key, trigger.value)} requires ${describeKeys(missing)}`);
+          }
+          break;
+        }
+      }
+    }));
+
+    return violations;
+  },
+
+  /**
+   * Load a user-defined rule pack from JSON
+   * @param json - A JSON object with a "name" and a "rules" array
+   * @returns The pack, or null with a description of each problem
+   */
+  loadRulePack(json: string): KLVRulePackLoadResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (err) {
+      return { pack: null, errors: [`Invalid JSON: ${(err as Error).message}`] };
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { pack: null, errors: ['Rule pack must be a JSON object'] };
+    }
+
+    const { name, rules } = data as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof name !== 'string' || !name) {
+      errors.push('Rule pack needs a "name"');
+    }
+    if (!Array.isArray(rules)) {
+      errors.push('Rule pack needs a "rules" array');
+    } else {
+      rules.forEach((rule, i) => {
+        if (!rule || typeof rule !== 'object') {
+          errors.push(`Rule ${i + 1}: must be an object`);
+          return;
+        }
+        const label = `Rule ${i + 1}${typeof rule.id === 'string' ? ` (${rule.id})` : ''}`;
+        if (typeof rule.id !== 'string' || !rule.id) {
+          errors.push(`${label}: needs an "id"`);
+        }
+        errors.push(...checkRuleShape(rule, label));
+      });
+    }
+
+    return errors.length > 0
+      ? { pack: null, errors }
+      : { pack: { name: name as string, rules: rules as KLVRule[] }, errors: [] };
+  }
+};
+
+export default KLVRules;
@@ -0,0 +1,25 @@
+/**
+ * Card brands identified by the leading digits (IIN/BIN) of a PAN
+ */
+
+export interface CardBrand {
+  name: string;
+  /** Inclusive IIN ranges; both bounds have the same number of digits */
+  prefixes: [string, string][];
+  /** Valid PAN lengths */
+  lengths: number[];
+}
+
+/**
+ * Checked in order, so narrower ranges come before the brands they overlap
+ */
+export const cardBrands: CardBrand[] = [
+  { name: 'Visa', prefixes: [['4', '4']], lengths: [13, 16, 19] },
+  { name: 'Mastercard', prefixes: [['51', '55'], ['2221', '2720']], lengths: [16] },
+  { name: 'American Express', prefixes: [['34', '34'], ['37', '37']], lengths: [15] },
+  { name: 'Diners Club', prefixes: [['300', '305'], ['36', '36'], ['38', '39']], lengths: [14, 15, 16, 17, 18, 19] },
+  { name: 'JCB', prefixes: [['3528', '3589']], lengths: [16, 17, 18, 19] },
+  { name: 'Discover', prefixes: [['6011', '6011'], ['644', '649'], ['65', '65']], lengths: [16, 17, 18, 19] },
+  { name: 'UnionPay', prefixes: [['62', '62']], lengths: [16, 17, 18, 19] },
+  { name: 'Maestro', prefixes: [['50', '50'], ['56', '58'], ['63', '63'], ['67', '67']], lengths: [12, 13, 14, 15, 16, 17, 18, 19] }
+];
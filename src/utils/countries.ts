@@ -0,0 +1,262 @@
+/**
+ * ISO 3166-1 country codes, keyed by numeric code
+ */
+
+export interface CountryInfo {
+  alpha2: string;
+  alpha3: string;
+  name: string;
+  flag: string;
+}
+
+export const countryMapping: Record<string, CountryInfo> = {
+  '004': { alpha2: 'AF', alpha3: 'AFG', name: 'Afghanistan', flag: '🇦🇫' },
+  '008': { alpha2: 'AL', alpha3: 'ALB', name: 'Albania', flag: '🇦🇱' },
+  '010': { alpha2: 'AQ', alpha3: 'ATA', name: 'Antarctica', flag: '🇦🇶' },
+  '012': { alpha2: 'DZ', alpha3: 'DZA', name: 'Algeria', flag: '🇩🇿' },
+  '016': { alpha2: 'AS', alpha3: 'ASM', name: 'American Samoa', flag: '🇦🇸' },
+  '020': { alpha2: 'AD', alpha3: 'AND', name: 'Andorra', flag: '🇦🇩' },
+  '024': { alpha2: 'AO', alpha3: 'AGO', name: 'Angola', flag: '🇦🇴' },
+  '028': { alpha2: 'AG', alpha3: 'ATG', name: 'Antigua and Barbuda', flag: '🇦🇬' },
+  '031': { alpha2: 'AZ', alpha3: 'AZE', name: 'Azerbaijan', flag: '🇦🇿' },
+  '032': { alpha2: 'AR', alpha3: 'ARG', name: 'Argentina', flag: '🇦🇷' },
+  '036': { alpha2: 'AU', alpha3: 'AUS', name: 'Australia', flag: '🇦🇺' },
+  '040': { alpha2: 'AT', alpha3: 'AUT', name: 'Austria', flag: '🇦🇹' },
+  '044': { alpha2: 'BS', alpha3: 'BHS', name: 'Bahamas', flag: '🇧🇸' },
+  '048': { alpha2: 'BH', alpha3: 'BHR', name: 'Bahrain', flag: '🇧🇭' },
+  '050': { alpha2: 'BD', alpha3: 'BGD', name: 'Bangladesh', flag: '🇧🇩' },
+  '051': { alpha2: 'AM', alpha3: 'ARM', name: 'Armenia', flag: '🇦🇲' },
+  '052': { alpha2: 'BB', alpha3: 'BRB', name: 'Barbados', flag: '🇧🇧' },
+  '056': { alpha2: 'BE', alpha3: 'BEL', name: 'Belgium', flag: '🇧🇪' },
+  '060': { alpha2: 'BM', alpha3: 'BMU', name: 'Bermuda', flag: '🇧🇲' },
+  '064': { alpha2: 'BT', alpha3: 'BTN', name: 'Bhutan', flag: '🇧🇹' },
+  '068': { alpha2: 'BO', alpha3: 'BOL', name: 'Bolivia, Plurinational State of', flag: '🇧🇴' },
+  '070': { alpha2: 'BA', alpha3: 'BIH', name: 'Bosnia and Herzegovina', flag: '🇧🇦' },
+  '072': { alpha2: 'BW', alpha3: 'BWA', name: 'Botswana', flag: '🇧🇼' },
+  '074': { alpha2: 'BV', alpha3: 'BVT', name: 'Bouvet Island', flag: '🇧🇻' },
+  '076': { alpha2: 'BR', alpha3: 'BRA', name: 'Brazil', flag: '🇧🇷' },
+  '084': { alpha2: 'BZ', alpha3: 'BLZ', name: 'Belize', flag: '🇧🇿' },
+  '086': { alpha2: 'IO', alpha3: 'IOT', name: 'British Indian Ocean Territory', flag: '🇮🇴' },
+  '090': { alpha2: 'SB', alpha3: 'SLB', name: 'Solomon Islands', flag: '🇸🇧' },
+  '092': { alpha2: 'VG', alpha3: 'VGB', name: 'Virgin Islands, British', flag: '🇻🇬' },
+  '096': { alpha2: 'BN', alpha3: 'BRN', name: 'Brunei Darussalam', flag: '🇧🇳' },
+  '100': { alpha2: 'BG', alpha3: 'BGR', name: 'Bulgaria', flag: '🇧🇬' },
+  '104': { alpha2: 'MM', alpha3: 'MMR', name: 'Myanmar', flag: '🇲🇲' },
+  '108': { alpha2: 'BI', alpha3: 'BDI', name: 'Burundi', flag: '🇧🇮' },
+  '112': { alpha2: 'BY', alpha3: 'BLR', name: 'Belarus', flag: '🇧🇾' },
+  '116': { alpha2: 'KH', alpha3: 'KHM', name: 'Cambodia', flag: '🇰🇭' },
+  '120': { alpha2: 'CM', alpha3: 'CMR', name: 'Cameroon', flag: '🇨🇲' },
+  '124': { alpha2: 'CA', alpha3: 'CAN', name: 'Canada', flag: '🇨🇦' },
+  '132': { alpha2: 'CV', alpha3: 'CPV', name: 'Cabo Verde', flag: '🇨🇻' },
+  '136': { alpha2: 'KY', alpha3: 'CYM', name: 'Cayman Islands', flag: '🇰🇾' },
+  '140': { alpha2: 'CF', alpha3: 'CAF', name: 'Central African Republic', flag: '🇨🇫' },
+  '144': { alpha2: 'LK', alpha3: 'LKA', name: 'Sri Lanka', flag: '🇱🇰' },
+  '148': { alpha2: 'TD', alpha3: 'TCD', name: 'Chad', flag: '🇹🇩' },
+  '152': { alpha2: 'CL', alpha3: 'CHL', name: 'Chile', flag: '🇨🇱' },
+  '156': { alpha2: 'CN', alpha3: 'CHN', name: 'China', flag: '🇨🇳' },
+  '158': { alpha2: 'TW', alpha3: 'TWN', name: 'Taiwan, Province of China', flag: '🇹🇼' },
+  '162': { alpha2: 'CX', alpha3: 'CXR', name: 'Christmas Island', flag: '🇨🇽' },
+  '166': { alpha2: 'CC', alpha3: 'CCK', name: 'Cocos (Keeling) Islands', flag: '🇨🇨' },
+  '170': { alpha2: 'CO', alpha3: 'COL', name: 'Colombia', flag: '🇨🇴' },
+  '174': { alpha2: 'KM', alpha3: 'COM', name: 'Comoros', flag: '🇰🇲' },
+  '175': { alpha2: 'YT', alpha3: 'MYT', name: 'Mayotte', flag: '🇾🇹' },
+  '178': { alpha2: 'CG', alpha3: 'COG', name: 'Congo', flag: '🇨🇬' },
+  '180': { alpha2: 'CD', alpha3: 'COD', name: 'Congo, The Democratic Republic of the', flag: '🇨🇩' },
+  '184': { alpha2: 'CK', alpha3: 'COK', name: 'Cook Islands', flag: '🇨🇰' },
+  '188': { alpha2: 'CR', alpha3: 'CRI', name: 'Costa Rica', flag: '🇨🇷' },
+  '191': { alpha2: 'HR', alpha3: 'HRV', name: 'Croatia', flag: '🇭🇷' },
+  '192': { alpha2: 'CU', alpha3: 'CUB', name: 'Cuba', flag: '🇨🇺' },
+  '196': { alpha2: 'CY', alpha3: 'CYP', name: 'Cyprus', flag: '🇨🇾' },
+  '203': { alpha2: 'CZ', alpha3: 'CZE', name: 'Czechia', flag: '🇨🇿' },
+  '204': { alpha2: 'BJ', alpha3: 'BEN', name: 'Benin', flag: '🇧🇯' },
+  '208': { alpha2: 'DK', alpha3: 'DNK', name: 'Denmark', flag: '🇩🇰' },
+  '212': { alpha2: 'DM', alpha3: 'DMA', name: 'Dominica', flag: '🇩🇲' },
+  '214': { alpha2: 'DO', alpha3: 'DOM', name: 'Dominican Republic', flag: '🇩🇴' },
+  '218': { alpha2: 'EC', alpha3: 'ECU', name: 'Ecuador', flag: '🇪🇨' },
+  '222': { alpha2: 'SV', alpha3: 'SLV', name: 'El Salvador', flag: '🇸🇻' },
+  '226': { alpha2: 'GQ', alpha3: 'GNQ', name: 'Equatorial Guinea', flag: '🇬🇶' },
+  '231': { alpha2: 'ET', alpha3: 'ETH', name: 'Ethiopia', flag: '🇪🇹' },
+  '232': { alpha2: 'ER', alpha3: 'ERI', name: 'Eritrea', flag: '🇪🇷' },
+  '233': { alpha2: 'EE', alpha3: 'EST', name: 'Estonia', flag: '🇪🇪' },
+  '234': { alpha2: 'FO', alpha3: 'FRO', name: 'Faroe Islands', flag: '🇫🇴' },
+  '238': { alpha2: 'FK', alpha3: 'FLK', name: 'Falkland Islands (Malvinas)', flag: '🇫🇰' },
+  '239': { alpha2: 'GS', alpha3: 'SGS', name: 'South Georgia and the South Sandwich Islands', flag: '🇬🇸' },
+  '242': { alpha2: 'FJ', alpha3: 'FJI', name: 'Fiji', flag: '🇫🇯' },
+  '246': { alpha2: 'FI', alpha3: 'FIN', name: 'Finland', flag: '🇫🇮' },
+  '248': { alpha2: 'AX', alpha3: 'ALA', name: 'Åland Islands', flag: '🇦🇽' },
+  '250': { alpha2: 'FR', alpha3: 'FRA', name: 'France', flag: '🇫🇷' },
+  '254': { alpha2: 'GF', alpha3: 'GUF', name: 'French Guiana', flag: '🇬🇫' },
+  '258': { alpha2: 'PF', alpha3: 'PYF', name: 'French Polynesia', flag: '🇵🇫' },
+  '260': { alpha2: 'TF', alpha3: 'ATF', name: 'French Southern Territories', flag: '🇹🇫' },
+  '262': { alpha2: 'DJ', alpha3: 'DJI', name: 'Djibouti', flag: '🇩🇯' },
+  '266': { alpha2: 'GA', alpha3: 'GAB', name: 'Gabon', flag: '🇬🇦' },
+  '268': { alpha2: 'GE', alpha3: 'GEO', name: 'Georgia', flag: '🇬🇪' },
+  '270': { alpha2: 'GM', alpha3: 'GMB', name: 'Gambia', flag: '🇬🇲' },
+  '275': { alpha2: 'PS', alpha3: 'PSE', name: 'Palestine, State of', flag: '🇵🇸' },
+  '276': { alpha2: 'DE', alpha3: 'DEU', name: 'Germany', flag: '🇩🇪' },
+  '288': { alpha2: 'GH', alpha3: 'GHA', name: 'Ghana', flag: '🇬🇭' },
+  '292': { alpha2: 'GI', alpha3: 'GIB', name: 'Gibraltar', flag: '🇬🇮' },
+  '296': { alpha2: 'KI', alpha3: 'KIR', name: 'Kiribati', flag: '🇰🇮' },
+  '300': { alpha2: 'GR', alpha3: 'GRC', name: 'Greece', flag: '🇬🇷' },
+  '304': { alpha2: 'GL', alpha3: 'GRL', name: 'Greenland', flag: '🇬🇱' },
+  '308': { alpha2: 'GD', alpha3: 'GRD', name: 'Grenada', flag: '🇬🇩' },
+  '312': { alpha2: 'GP', alpha3: 'GLP', name: 'Guadeloupe', flag: '🇬🇵' },
+  '316': { alpha2: 'GU', alpha3: 'GUM', name: 'Guam', flag: '🇬🇺' },
+  '320': { alpha2: 'GT', alpha3: 'GTM', name: 'Guatemala', flag: '🇬🇹' },
+  '324': { alpha2: 'GN', alpha3: 'GIN', name: 'Guinea', flag: '🇬🇳' },
+  '328': { alpha2: 'GY', alpha3: 'GUY', name: 'Guyana', flag: '🇬🇾' },
+  '332': { alpha2: 'HT', alpha3: 'HTI', name: 'Haiti', flag: '🇭🇹' },
+  '334': { alpha2: 'HM', alpha3: 'HMD', name: 'Heard Island and McDonald Islands', flag: '🇭🇲' },
+  '336': { alpha2: 'VA', alpha3: 'VAT', name: 'Holy See (Vatican City State)', flag: '🇻🇦' },
+  '340': { alpha2: 'HN', alpha3: 'HND', name: 'Honduras', flag: '🇭🇳' },
+  '344': { alpha2: 'HK', alpha3: 'HKG', name: 'Hong Kong', flag: '🇭🇰' },
+  '348': { alpha2: 'HU', alpha3: 'HUN', name: 'Hungary', flag: '🇭🇺' },
+  '352': { alpha2: 'IS', alpha3: 'ISL', name: 'Iceland', flag: '🇮🇸' },
+  '356': { alpha2: 'IN', alpha3: 'IND', name: 'India', flag: '🇮🇳' },
+  '360': { alpha2: 'ID', alpha3: 'IDN', name: 'Indonesia', flag: '🇮🇩' },
+  '364': { alpha2: 'IR', alpha3: 'IRN', name: 'Iran, Islamic Republic of', flag: '🇮🇷' },
+  '368': { alpha2: 'IQ', alpha3: 'IRQ', name: 'Iraq', flag: '🇮🇶' },
+  '372': { alpha2: 'IE', alpha3: 'IRL', name: 'Ireland', flag: '🇮🇪' },
+  '376': { alpha2: 'IL', alpha3: 'ISR', name: 'Israel', flag: '🇮🇱' },
+  '380': { alpha2: 'IT', alpha3: 'ITA', name: 'Italy', flag: '🇮🇹' },
+  '384': { alpha2: 'CI', alpha3: 'CIV', name: 'Côte d\'Ivoire', flag: '🇨🇮' },
+  '388': { alpha2: 'JM', alpha3: 'JAM', name: 'Jamaica', flag: '🇯🇲' },
+  '392': { alpha2: 'JP', alpha3: 'JPN', name: 'Japan', flag: '🇯🇵' },
+  '398': { alpha2: 'KZ', alpha3: 'KAZ', name: 'Kazakhstan', flag: '🇰🇿' },
+  '400': { alpha2: 'JO', alpha3: 'JOR', name: 'Jordan', flag: '🇯🇴' },
+  '404': { alpha2: 'KE', alpha3: 'KEN', name: 'Kenya', flag: '🇰🇪' },
+  '408': { alpha2: 'KP', alpha3: 'PRK', name: 'Korea, Democratic People\'s Republic of', flag: '🇰🇵' },
+  '410': { alpha2: 'KR', alpha3: 'KOR', name: 'Korea, Republic of', flag: '🇰🇷' },
+  '414': { alpha2: 'KW', alpha3: 'KWT', name: 'Kuwait', flag: '🇰🇼' },
+  '417': { alpha2: 'KG', alpha3: 'KGZ', name: 'Kyrgyzstan', flag: '🇰🇬' },
+  '418': { alpha2: 'LA', alpha3: 'LAO', name: 'Lao People\'s Democratic Republic', flag: '🇱🇦' },
+  '422': { alpha2: 'LB', alpha3: 'LBN', name: 'Lebanon', flag: '🇱🇧' },
+  '426': { alpha2: 'LS', alpha3: 'LSO', name: 'Lesotho', flag: '🇱🇸' },
+  '428': { alpha2: 'LV', alpha3: 'LVA', name: 'Latvia', flag: '🇱🇻' },
+  '430': { alpha2: 'LR', alpha3: 'LBR', name: 'Liberia', flag: '🇱🇷' },
+  '434': { alpha2: 'LY', alpha3: 'LBY', name: 'Libya', flag: '🇱🇾' },
+  '438': { alpha2: 'LI', alpha3: 'LIE', name: 'Liechtenstein', flag: '🇱🇮' },
+  '440': { alpha2: 'LT', alpha3: 'LTU', name: 'Lithuania', flag: '🇱🇹' },
+  '442': { alpha2: 'LU', alpha3: 'LUX', name: 'Luxembourg', flag: '🇱🇺' },
+  '446': { alpha2: 'MO', alpha3: 'MAC', name: 'Macao', flag: '🇲🇴' },
+  '450': { alpha2: 'MG', alpha3: 'MDG', name: 'Madagascar', flag: '🇲🇬' },
+  '454': { alpha2: 'MW', alpha3: 'MWI', name: 'Malawi', flag: '🇲🇼' },
+  '458': { alpha2: 'MY', alpha3: 'MYS', name: 'Malaysia', flag: '🇲🇾' },
+  '462': { alpha2: 'MV', alpha3: 'MDV', name: 'Maldives', flag: '🇲🇻' },
+  '466': { alpha2: 'ML', alpha3: 'MLI', name: 'Mali', flag: '🇲🇱' },
+  '470': { alpha2: 'MT', alpha3: 'MLT', name: 'Malta', flag: '🇲🇹' },
+  '474': { alpha2: 'MQ', alpha3: 'MTQ', name: 'Martinique', flag: '🇲🇶' },
+  '478': { alpha2: 'MR', alpha3: 'MRT', name: 'Mauritania', flag: '🇲🇷' },
+  '480': { alpha2: 'MU', alpha3: 'MUS', name: 'Mauritius', flag: '🇲🇺' },
+  '484': { alpha2: 'MX', alpha3: 'MEX', name: 'Mexico', flag: '🇲🇽' },
+  '492': { alpha2: 'MC', alpha3: 'MCO', name: 'Monaco', flag: '🇲🇨' },
+  '496': { alpha2: 'MN', alpha3: 'MNG', name: 'Mongolia', flag: '🇲🇳' },
+  '498': { alpha2: 'MD', alpha3: 'MDA', name: 'Moldova, Republic of', flag: '🇲🇩' },
+  '499': { alpha2: 'ME', alpha3: 'MNE', name: 'Montenegro', flag: '🇲🇪' },
+  '500': { alpha2: 'MS', alpha3: 'MSR', name: 'Montserrat', flag: '🇲🇸' },
+  '504': { alpha2: 'MA', alpha3: 'MAR', name: 'Morocco', flag: '🇲🇦' },
+  '508': { alpha2: 'MZ', alpha3: 'MOZ', name: 'Mozambique', flag: '🇲🇿' },
+  '512': { alpha2: 'OM', alpha3: 'OMN', name: 'Oman', flag: '🇴🇲' },
+  '516': { alpha2: 'NA', alpha3: 'NAM', name: 'Namibia', flag: '🇳🇦' },
+  '520': { alpha2: 'NR', alpha3: 'NRU', name: 'Nauru', flag: '🇳🇷' },
+  '524': { alpha2: 'NP', alpha3: 'NPL', name: 'Nepal', flag: '🇳🇵' },
+  '528': { alpha2: 'NL', alpha3: 'NLD', name: 'Netherlands', flag: '🇳🇱' },
+  '531': { alpha2: 'CW', alpha3: 'CUW', name: 'Curaçao', flag: '🇨🇼' },
+  '533': { alpha2: 'AW', alpha3: 'ABW', name: 'Aruba', flag: '🇦🇼' },
+  '534': { alpha2: 'SX', alpha3: 'SXM', name: 'Sint Maarten (Dutch part)', flag: '🇸🇽' },
+  '535': { alpha2: 'BQ', alpha3: 'BES', name: 'Bonaire, Sint Eustatius and Saba', flag: '🇧🇶' },
+  '540': { alpha2: 'NC', alpha3: 'NCL', name: 'New Caledonia', flag: '🇳🇨' },
+  '548': { alpha2: 'VU', alpha3: 'VUT', name: 'Vanuatu', flag: '🇻🇺' },
+  '554': { alpha2: 'NZ', alpha3: 'NZL', name: 'New Zealand', flag: '🇳🇿' },
+  '558': { alpha2: 'NI', alpha3: 'NIC', name: 'Nicaragua', flag: '🇳🇮' },
+  '562': { alpha2: 'NE', alpha3: 'NER', name: 'Niger', flag: '🇳🇪' },
+  '566': { alpha2: 'NG', alpha3: 'NGA', name: 'Nigeria', flag: '🇳🇬' },
+  '570': { alpha2: 'NU', alpha3: 'NIU', name: 'Niue', flag: '🇳🇺' },
+  '574': { alpha2: 'NF', alpha3: 'NFK', name: 'Norfolk Island', flag: '🇳🇫' },
+  '578': { alpha2: 'NO', alpha3: 'NOR', name: 'Norway', flag: '🇳🇴' },
+  '580': { alpha2: 'MP', alpha3: 'MNP', name: 'Northern Mariana Islands', flag: '🇲🇵' },
+  '581': { alpha2: 'UM', alpha3: 'UMI', name: 'United States Minor Outlying Islands', flag: '🇺🇲' },
+  '583': { alpha2: 'FM', alpha3: 'FSM', name: 'Micronesia, Federated States of', flag: '🇫🇲' },
+  '584': { alpha2: 'MH', alpha3: 'MHL', name: 'Marshall Islands', flag: '🇲🇭' },
+  '585': { alpha2: 'PW', alpha3: 'PLW', name: 'Palau', flag: '🇵🇼' },
+  '586': { alpha2: 'PK', alpha3: 'PAK', name: 'Pakistan', flag: '🇵🇰' },
+  '591': { alpha2: 'PA', alpha3: 'PAN', name: 'Panama', flag: '🇵🇦' },
+  '598': { alpha2: 'PG', alpha3: 'PNG', name: 'Papua New Guinea', flag: '🇵🇬' },
+  '600': { alpha2: 'PY', alpha3: 'PRY', name: 'Paraguay', flag: '🇵🇾' },
+  '604': { alpha2: 'PE', alpha3: 'PER', name: 'Peru', flag: '🇵🇪' },
+  '608': { alpha2: 'PH', alpha3: 'PHL', name: 'Philippines', flag: '🇵🇭' },
+  '612': { alpha2: 'PN', alpha3: 'PCN', name: 'Pitcairn', flag: '🇵🇳' },
+  '616': { alpha2: 'PL', alpha3: 'POL', name: 'Poland', flag: '🇵🇱' },
+  '620': { alpha2: 'PT', alpha3: 'PRT', name: 'Portugal', flag: '🇵🇹' },
+  '624': { alpha2: 'GW', alpha3: 'GNB', name: 'Guinea-Bissau', flag: '🇬🇼' },
+  '626': { alpha2: 'TL', alpha3: 'TLS', name: 'Timor-Leste', flag: '🇹🇱' },
+  '630': { alpha2: 'PR', alpha3: 'PRI', name: 'Puerto Rico', flag: '🇵🇷' },
+  '634': { alpha2: 'QA', alpha3: 'QAT', name: 'Qatar', flag: '🇶🇦' },
+  '638': { alpha2: 'RE', alpha3: 'REU', name: 'Réunion', flag: '🇷🇪' },
+  '642': { alpha2: 'RO', alpha3: 'ROU', name: 'Romania', flag: '🇷🇴' },
+  '643': { alpha2: 'RU', alpha3: 'RUS', name: 'Russian Federation', flag: '🇷🇺' },
+  '646': { alpha2: 'RW', alpha3: 'RWA', name: 'Rwanda', flag: '🇷🇼' },
+  '652': { alpha2: 'BL', alpha3: 'BLM', name: 'Saint Barthélemy', flag: '🇧🇱' },
+  '654': { alpha2: 'SH', alpha3: 'SHN', name: 'Saint Helena, Ascension and Tristan da Cunha', flag: '🇸🇭' },
+  '659': { alpha2: 'KN', alpha3: 'KNA', name: 'Saint Kitts and Nevis', flag: '🇰🇳' },
+  '660': { alpha2: 'AI', alpha3: 'AIA', name: 'Anguilla', flag: '🇦🇮' },
+  '662': { alpha2: 'LC', alpha3: 'LCA', name: 'Saint Lucia', flag: '🇱🇨' },
+  '663': { alpha2: 'MF', alpha3: 'MAF', name: 'Saint Martin (French part)', flag: '🇲🇫' },
+  '666': { alpha2: 'PM', alpha3: 'SPM', name: 'Saint Pierre and Miquelon', flag: '🇵🇲' },
+  '670': { alpha2: 'VC', alpha3: 'VCT', name: 'Saint Vincent and the Grenadines', flag: '🇻🇨' },
+  '674': { alpha2: 'SM', alpha3: 'SMR', name: 'San Marino', flag: '🇸🇲' },
+  '678': { alpha2: 'ST', alpha3: 'STP', name: 'Sao Tome and Principe', flag: '🇸🇹' },
+  '682': { alpha2: 'SA', alpha3: 'SAU', name: 'Saudi Arabia', flag: '🇸🇦' },
+  '686': { alpha2: 'SN', alpha3: 'SEN', name: 'Senegal', flag: '🇸🇳' },
+  '688': { alpha2: 'RS', alpha3: 'SRB', name: 'Serbia', flag: '🇷🇸' },
+  '690': { alpha2: 'SC', alpha3: 'SYC', name: 'Seychelles', flag: '🇸🇨' },
+  '694': { alpha2: 'SL', alpha3: 'SLE', name: 'Sierra Leone', flag: '🇸🇱' },
+  '702': { alpha2: 'SG', alpha3: 'SGP', name: 'Singapore', flag: '🇸🇬' },
+  '703': { alpha2: 'SK', alpha3: 'SVK', name: 'Slovakia', flag: '🇸🇰' },
+  '704': { alpha2: 'VN', alpha3: 'VNM', name: 'Viet Nam', flag: '🇻🇳' },
+  '705': { alpha2: 'SI', alpha3: 'SVN', name: 'Slovenia', flag: '🇸🇮' },
+  '706': { alpha2: 'SO', alpha3: 'SOM', name: 'Somalia', flag: '🇸🇴' },
+  '710': { alpha2: 'ZA', alpha3: 'ZAF', name: 'South Africa', flag: '🇿🇦' },
+  '716': { alpha2: 'ZW', alpha3: 'ZWE', name: 'Zimbabwe', flag: '🇿🇼' },
+  '724': { alpha2: 'ES', alpha3: 'ESP', name: 'Spain', flag: '🇪🇸' },
+  '728': { alpha2: 'SS', alpha3: 'SSD', name: 'South Sudan', flag: '🇸🇸' },
+  '729': { alpha2: 'SD', alpha3: 'SDN', name: 'Sudan', flag: '🇸🇩' },
+  '732': { alpha2: 'EH', alpha3: 'ESH', name: 'Western Sahara', flag: '🇪🇭' },
+  '740': { alpha2: 'SR', alpha3: 'SUR', name: 'Suriname', flag: '🇸🇷' },
+  '744': { alpha2: 'SJ', alpha3: 'SJM', name: 'Svalbard and Jan Mayen', flag: '🇸🇯' },
+  '748': { alpha2: 'SZ', alpha3: 'SWZ', name: 'Eswatini', flag: '🇸🇿' },
+  '752': { alpha2: 'SE', alpha3: 'SWE', name: 'Sweden', flag: '🇸🇪' },
+  '756': { alpha2: 'CH', alpha3: 'CHE', name: 'Switzerland', flag: '🇨🇭' },
+  '760': { alpha2: 'SY', alpha3: 'SYR', name: 'Syrian Arab Republic', flag: '🇸🇾' },
+  '762': { alpha2: 'TJ', alpha3: 'TJK', name: 'Tajikistan', flag: '🇹🇯' },
+  '764': { alpha2: 'TH', alpha3: 'THA', name: 'Thailand', flag: '🇹🇭' },
+  '768': { alpha2: 'TG', alpha3: 'TGO', name: 'Togo', flag: '🇹🇬' },
+  '772': { alpha2: 'TK', alpha3: 'TKL', name: 'Tokelau', flag: '🇹🇰' },
+  '776': { alpha2: 'TO', alpha3: 'TON', name: 'Tonga', flag: '🇹🇴' },
+  '780': { alpha2: 'TT', alpha3: 'TTO', name: 'Trinidad and Tobago', flag: '🇹🇹' },
+  '784': { alpha2: 'AE', alpha3: 'ARE', name: 'United Arab Emirates', flag: '🇦🇪' },
+  '788': { alpha2: 'TN', alpha3: 'TUN', name: 'Tunisia', flag: '🇹🇳' },
+  '792': { alpha2: 'TR', alpha3: 'TUR', name: 'Türkiye', flag: '🇹🇷' },
+  '795': { alpha2: 'TM', alpha3: 'TKM', name: 'Turkmenistan', flag: '🇹🇲' },
+  '796': { alpha2: 'TC', alpha3: 'TCA', name: 'Turks and Caicos Islands', flag: '🇹🇨' },
+  '798': { alpha2: 'TV', alpha3: 'TUV', name: 'Tuvalu', flag: '🇹🇻' },
+  '800': { alpha2: 'UG', alpha3: 'UGA', name: 'Uganda', flag: '🇺🇬' },
+  '804': { alpha2: 'UA', alpha3: 'UKR', name: 'Ukraine', flag: '🇺🇦' },
+  '807': { alpha2: 'MK', alpha3: 'MKD', name: 'North Macedonia', flag: '🇲🇰' },
+  '818': { alpha2: 'EG', alpha3: 'EGY', name: 'Egypt', flag: '🇪🇬' },
+  '826': { alpha2: 'GB', alpha3: 'GBR', name: 'United Kingdom', flag: '🇬🇧' },
+  '831': { alpha2: 'GG', alpha3: 'GGY', name: 'Guernsey', flag: '🇬🇬' },
+  '832': { alpha2: 'JE', alpha3: 'JEY', name: 'Jersey', flag: '🇯🇪' },
+  '833': { alpha2: 'IM', alpha3: 'IMN', name: 'Isle of Man', flag: '🇮🇲' },
+  '834': { alpha2: 'TZ', alpha3: 'TZA', name: 'Tanzania, United Republic of', flag: '🇹🇿' },
+  '840': { alpha2: 'US', alpha3: 'USA', name: 'United States', flag: '🇺🇸' },
+  '850': { alpha2: 'VI', alpha3: 'VIR', name: 'Virgin Islands, U.S.', flag: '🇻🇮' },
+  '854': { alpha2: 'BF', alpha3: 'BFA', name: 'Burkina Faso', flag: '🇧🇫' },
+  '858': { alpha2: 'UY', alpha3: 'URY', name: 'Uruguay', flag: '🇺🇾' },
+  '860': { alpha2: 'UZ', alpha3: 'UZB', name: 'Uzbekistan', flag: '🇺🇿' },
+  '862': { alpha2: 'VE', alpha3: 'VEN', name: 'Venezuela, Bolivarian Republic of', flag: '🇻🇪' },
+  '876': { alpha2: 'WF', alpha3: 'WLF', name: 'Wallis and Futuna', flag: '🇼🇫' },
+  '882': { alpha2: 'WS', alpha3: 'WSM', name: 'Samoa', flag: '🇼🇸' },
+  '887': { alpha2: 'YE', alpha3: 'YEM', name: 'Yemen', flag: '🇾🇪' },
+  '894': { alpha2: 'ZM', alpha3: 'ZMB', name: 'Zambia', flag: '🇿🇲' }
+};
@@ -0,0 +1,205 @@
+/**
+ * ISO 18245 Merchant Category Codes with descriptions and risk groups
+ */
+
+export type MCCGroup =
+  | 'airlines'
+  | 'car-rental'
+  | 'lodging'
+  | 'travel'
+  | 'restaurants'
+  | 'grocery'
+  | 'fuel'
+  | 'retail'
+  | 'digital'
+  | 'utilities'
+  | 'healthcare'
+  | 'education'
+  | 'services'
+  | 'entertainment'
+  | 'government'
+  | 'financial'
+  | 'quasi-cash'
+  | 'gambling'
+  | 'telemarketing'
+  | 'dating';
+
+export interface MCCGroupInfo {
+  label: string;
+  /** Groups card schemes and acquirers treat as high-risk for fraud and chargebacks */
+  highRisk: boolean;
+}
+
+export interface MCCInfo {
+  description: string;
+  group: MCCGroup;
+}
+
+export const mccGroups: Record<MCCGroup, MCCGroupInfo> = {
+  airlines: { label: 'Airlines', highRisk: false },
+  'car-rental': { label: 'Car Rental', highRisk: false },
+  lodging: { label: 'Lodging', highRisk: false },
+  travel: { label: 'Travel & Transport', highRisk: false },
+  restaurants: { label: 'Restaurants', highRisk: false },
+  grocery: { label: 'Grocery', highRisk: false },
+  fuel: { label: 'Fuel', highRisk: false },
+  retail: { label: 'Retail', highRisk: false },
+  digital: { label: 'Digital Goods', highRisk: false },
+  utilities: { label: 'Utilities & Telecom', highRisk: false },
+  healthcare: { label: 'Healthcare', highRisk: false },
+  education: { label: 'Education', highRisk: false },
+  services: { label: 'Services', highRisk: false },
+  entertainment: { label: 'Entertainment', highRisk: false },
+  government: { label: 'Government', highRisk: false },
+  financial: { label: 'Financial Services', highRisk: false },
+  'quasi-cash': { label: 'Quasi-Cash & Money Transfer', highRisk: true },
+  gambling: { label: 'Gambling', highRisk: true },
+  telemarketing: { label: 'Telemarketing', highRisk: true },
+  dating: { label: 'Dating & Escort Services', highRisk: true }
+};
+
+/**
+ * Code ranges reserved for individual airlines, car rental agencies and
+ * hotel chains; codes inside them take the generic description
+ */
+export const mccRanges: { from: number; to: number; info: MCCInfo }[] = [
+  { from: 3000, to: 3350, info: { description: 'Airline', group: 'airlines' } },
+  { from: 3351, to: 3500, info: { description: 'Car Rental Agency', group: 'car-rental' } },
+  { from: 3501, to: 3999, info: { description: 'Hotel / Resort', group: 'lodging' } }
+];
+
+export const mccMapping: Record<string, MCCInfo> = {
+  // Travel
+  '4111': { description: 'Commuter Transport, Ferries', group: 'travel' },
+  '4112': { description: 'Passenger Railways', group: 'travel' },
+  '4121': { description: 'Taxicabs and Limousines', group: 'travel' },
+  '4131': { description: 'Bus Lines', group: 'travel' },
+  '4411': { description: 'Cruise Lines', group: 'travel' },
+  '4511': { description: 'Airlines and Air Carriers', group: 'airlines' },
+  '4722': { description: 'Travel Agencies and Tour Operators', group: 'travel' },
+  '4784': { description: 'Tolls and Bridge Fees', group: 'travel' },
+  '4789': { description: 'Transportation Services', group: 'travel' },
+  '7011': { description: 'Hotels, Motels and Resorts', group: 'lodging' },
+  '7512': { description: 'Automobile Rental Agency', group: 'car-rental' },
+  '7523': { description: 'Parking Lots and Garages', group: 'travel' },
+
+  // Utilities and telecom
+  '4814': { description: 'Telecommunication Services', group: 'utilities' },
+  '4899': { description: 'Cable and Pay Television', group: 'utilities' },
+  '4900': { description: 'Utilities - Electric, Gas, Water', group: 'utilities' },
+
+  // Retail
+  '5200': { description: 'Home Supply Warehouse Stores', group: 'retail' },
+  '5251': { description: 'Hardware Stores', group: 'retail' },
+  '5310': { description: 'Discount Stores', group: 'retail' },
+  '5311': { description: 'Department Stores', group: 'retail' },
+  '5331': { description: 'Variety Stores', group: 'retail' },
+  '5399': { description: 'Miscellaneous General Merchandise', group: 'retail' },
+  '5611': { description: 'Men\'s Clothing Stores', group: 'retail' },
+  '5621': { description: 'Women\'s Ready-to-Wear Stores', group: 'retail' },
+  '5651': { description: 'Family Clothing Stores', group: 'retail' },
+  '5661': { description: 'Shoe Stores', group: 'retail' },
+  '5691': { description: 'Men\'s and Women\'s Clothing Stores', group: 'retail' },
+  '5699': { description: 'Miscellaneous Apparel Stores', group: 'retail' },
+  '5712': { description: 'Furniture Stores', group: 'retail' },
+  '5732': { description: 'Electronics Stores', group: 'retail' },
+  '5734': { description: 'Computer Software Stores', group: 'retail' },
+  '5735': { description: 'Record Stores', group: 'retail' },
+  '5912': { description: 'Drug Stores and Pharmacies', group: 'retail' },
+  '5941': { description: 'Sporting Goods Stores', group: 'retail' },
+  '5942': { description: 'Book Stores', group: 'retail' },
+  '5943': { description: 'Stationery Stores', group: 'retail' },
+  '5944': { description: 'Jewelry Stores', group: 'retail' },
+  '5945': { description: 'Hobby, Toy and Game Shops', group: 'retail' },
+  '5977': { description: 'Cosmetic Stores', group: 'retail' },
+  '5999': { description: 'Miscellaneous and Specialty Retail', group: 'retail' },
+
+  // Food
+  '5411': { description: 'Grocery Stores, Supermarkets', group: 'grocery' },
+  '5422': { description: 'Freezer and Meat Provisioners', group: 'grocery' },
+  '5441': { description: 'Candy and Confectionery Stores', group: 'grocery' },
+  '5451': { description: 'Dairy Products Stores', group: 'grocery' },
+  '5462': { description: 'Bakeries', group: 'grocery' },
+  '5499': { description: 'Miscellaneous Food Stores', group: 'grocery' },
+  '5811': { description: 'Caterers', group: 'restaurants' },
+  '5812': { description: 'Eating Places and Restaurants', group: 'restaurants' },
+  '5813': { description: 'Bars, Taverns and Nightclubs', group: 'restaurants' },
+  '5814': { description: 'Fast Food Restaurants', group: 'restaurants' },
+
+  // Fuel
+  '5541': { description: 'Service Stations', group: 'fuel' },
+  '5542': { description: 'Automated Fuel Dispensers', group: 'fuel' },
+  '5983': { description: 'Fuel Dealers', group: 'fuel' },
+
+  // Digital goods
+  '5815': { description: 'Digital Goods - Media', group: 'digital' },
+  '5816': { description: 'Digital Goods - Games', group: 'digital' },
+  '5817': { description: 'Digital Goods - Applications', group: 'digital' },
+  '5818': { description: 'Digital Goods - Large Merchant', group: 'digital' },
+
+  // Telemarketing
+  '5962': { description: 'Direct Marketing - Travel Related Services', group: 'telemarketing' },
+  '5966': { description: 'Direct Marketing - Outbound Telemarketing', group: 'telemarketing' },
+  '5967': { description: 'Direct Marketing - Inbound Teleservices', group: 'telemarketing' },
+
+  // Financial
+  '6010': { description: 'Manual Cash Disbursements', group: 'financial' },
+  '6011': { description: 'Automated Cash Disbursements (ATM)', group: 'financial' },
+  '6012': { description: 'Financial Institutions - Merchandise and Services', group: 'financial' },
+  '6211': { description: 'Security Brokers and Dealers', group: 'financial' },
+  '6300': { description: 'Insurance Sales and Underwriting', group: 'financial' },
+
+  // Quasi-cash and money transfer
+  '4829': { description: 'Wire Transfers and Money Orders', group: 'quasi-cash' },
+  '6050': { description: 'Quasi Cash - Financial Institutions', group: 'quasi-cash' },
+  '6051': { description: 'Quasi Cash - Non-Financial Institutions', group: 'quasi-cash' },
+  '6538': { description: 'Funding Transactions for MoneySend', group: 'quasi-cash' },
+  '6540': { description: 'Stored Value Card Purchase / Load', group: 'quasi-cash' },
+
+  // Services
+  '7210': { description: 'Laundry and Cleaning Services', group: 'services' },
+  '7230': { description: 'Beauty and Barber Shops', group: 'services' },
+  '7299': { description: 'Miscellaneous Personal Services', group: 'services' },
+  '7311': { description: 'Advertising Services', group: 'services' },
+  '7372': { description: 'Computer Programming and Data Processing', group: 'services' },
+  '7538': { description: 'Automotive Service Shops', group: 'services' },
+  '7542': { description: 'Car Washes', group: 'services' },
+  '8999': { description: 'Professional Services', group: 'services' },
+
+  // Dating
+  '7273': { description: 'Dating and Escort Services', group: 'dating' },
+
+  // Entertainment
+  '7832': { description: 'Motion Picture Theaters', group: 'entertainment' },
+  '7922': { description: 'Theatrical Producers and Ticket Agencies', group: 'entertainment' },
+  '7941': { description: 'Sports Clubs and Promoters', group: 'entertainment' },
+  '7991': { description: 'Tourist Attractions and Exhibits', group: 'entertainment' },
+  '7996': { description: 'Amusement Parks and Carnivals', group: 'entertainment' },
+  '7997': { description: 'Membership Clubs', group: 'entertainment' },
+  '7999': { description: 'Recreation Services', group: 'entertainment' },
+
+  // Gambling
+  '7800': { description: 'Government-Owned Lotteries (US Region)', group: 'gambling' },
+  '7801': { description: 'Government Licensed Online Casinos', group: 'gambling' },
+  '7802': { description: 'Government Licensed Horse/Dog Racing', group: 'gambling' },
+  '7995': { description: 'Betting, Casino Gaming and Lottery Tickets', group: 'gambling' },
+  '9406': { description: 'Government-Owned Lotteries (Non-US Region)', group: 'gambling' },
+
+  // Healthcare
+  '8011': { description: 'Doctors and Physicians', group: 'healthcare' },
+  '8021': { description: 'Dentists and Orthodontists', group: 'healthcare' },
+  '8062': { description: 'Hospitals', group: 'healthcare' },
+  '8099': { description: 'Medical Services', group: 'healthcare' },
+
+  // Education and charity
+  '8220': { description: 'Colleges and Universities', group: 'education' },
+  '8299': { description: 'Schools and Educational Services', group: 'education' },
+  '8398': { description: 'Charitable and Social Service Organizations', group: 'services' },
+
+  // Government
+  '9211': { description: 'Court Costs', group: 'government' },
+  '9222': { description: 'Fines', group: 'government' },
+  '9311': { description: 'Tax Payments', group: 'government' },
+  '9399': { description: 'Government Services', group: 'government' },
+  '9402': { description: 'Postal Services - Government Only', group: 'government' }
+};
@@ -0,0 +1,73 @@
+/**
+ * Message profiles: the keys each transaction type carries
+ */
+
+export type MessageProfileId = 'oct' | 'tokenisation' | 'installment' | 'cashback';
+
+export interface MessageProfile {
+  name: string;
+  description: string;
+  /** Keys the message must carry, in the order a skeleton lists them */
+  required: string[];
+  optional: string[];
+  /** Keys that must not appear in this message type */
+  forbidden: string[];
+  /** Keys that must appear in this relative order when present */
+  order: string[];
+}
+
+// Acquirer and merchant data any card-present or card-not-present purchase may carry
+const PURCHASE_KEYS = [
+  '010', '032', '037', '041', '042', '043', '044', '045', '048', '061', '063', '067', '068', '069',
+  '085', '250', '251', '252', '253', '256', '257', '258', '259', '261', '262', '264', '265', '266',
+  '267', '269', '271', '272', '274', '300', '301', '417', '418', '419', '920', '921', '922', '925',
+  '932', '933'
+];
+
+const DIGITIZATION_KEYS = [
+  '901', '902', '903', '904', '905', '906', '910', '911', '912', '913', '915', '916', '917', '923',
+  '924', '929', '930', '931'
+];
+
+const INSTALLMENT_KEYS = ['268', '273', '275', '276'];
+
+const CASHBACK_KEYS = ['302', '303'];
+
+export const messageProfiles: Record<MessageProfileId, MessageProfile> = {
+  oct: {
+    name: 'OCT / Money Transfer',
+    description: 'Original credit transaction moving funds from a sender to a recipient',
+    required: ['002', '004', '049', '400', '412', '108', '110'],
+    optional: [
+      '026', '032', '037', '041', '042', '043', '044', '063', '251', '259', '274', '417',
+      '109', '111', '401', '402', '403', '404', '405', '406', '408', '409', '410', '411', '413',
+      '414', '415', '416', '419', '420', '421', '422', '423', '424', '425', '932', '933'
+    ],
+    forbidden: [...INSTALLMENT_KEYS, ...CASHBACK_KEYS, '052'],
+    order: ['002', '004', '049', '400', '108']
+  },
+  tokenisation: {
+    name: 'Tokenisation Event',
+    description: 'Token lifecycle notification from MDES or VTS',
+    required: ['002', '913', '923'],
+    optional: [...DIGITIZATION_KEYS.filter(key => key !== '913' && key !== '923'), '251', '254', '255', '269', '900', '934'],
+    forbidden: ['004', '010', '049', '052', ...INSTALLMENT_KEYS, ...CASHBACK_KEYS],
+    order: ['002', '913', '923', '924']
+  },
+  installment: {
+    name: 'Installment Purchase',
+    description: 'Purchase paid in installments',
+    required: ['002', '004', '049', '026', ...INSTALLMENT_KEYS],
+    optional: [...PURCHASE_KEYS, '052', '254', '913', '916'],
+    forbidden: [...CASHBACK_KEYS, '108', '110', '400', '412'],
+    order: ['002', '004', '049']
+  },
+  cashback: {
+    name: 'Purchase with Cashback',
+    description: 'Card-present purchase with cash back at the point of sale',
+    required: ['002', '004', '049', '026', ...CASHBACK_KEYS],
+    optional: [...PURCHASE_KEYS, '052', '254', '913', '916'],
+    forbidden: [...INSTALLMENT_KEYS, '108', '110', '400', '412'],
+    order: ['002', '004', '049', '302', '303']
+  }
+};